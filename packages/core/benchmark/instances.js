@@ -0,0 +1,95 @@
+/**
+ * Measures decoding model instances, optionally against a build of another version of the
+ * package, e.g. from a `git worktree` of the previous release.
+ *
+ * Requires a build of the package: `yarn build && yarn bench [path/to/baseline/dist/cjs]`
+ */
+const path = require("path")
+const { performance } = require("perf_hooks")
+
+const COUNT = 10000
+const ROUNDS = 5
+
+const provider = {
+  instanceProps: {
+    put() {
+      return this
+    },
+    keys() {
+      return { PK: this.id }
+    },
+    cursor() {
+      return this.id
+    }
+  }
+}
+
+/**
+ * Defines the benchmarked model with the given build of the package.
+ */
+function define(build) {
+  const { model, t } = require(build)
+
+  const codec = t.type({
+    id: t.string,
+    name: t.string,
+    email: t.string,
+    createdAt: t.DateFromISOString,
+    tags: t.array(t.string)
+  })
+
+  return class User extends model("User", codec, provider) {}
+}
+
+const items = Array.from({ length: COUNT }, (_, index) => ({
+  id: `user-${index}`,
+  name: `User ${index}`,
+  email: `user-${index}@example.com`,
+  createdAt: new Date(index).toISOString(),
+  tags: ["a", "b"]
+}))
+
+function measure(Model) {
+  if (global.gc) global.gc()
+  const heapBefore = process.memoryUsage().heapUsed
+  const start = performance.now()
+
+  const instances = items.map(item => Model.from(item))
+  instances.forEach(instance => instance.values())
+
+  const duration = performance.now() - start
+  // Only count memory retained by the instances
+  if (global.gc) global.gc()
+  const heap = process.memoryUsage().heapUsed - heapBefore
+
+  return { duration, heap, count: instances.length }
+}
+
+function run(Model) {
+  // Warm up
+  measure(Model)
+
+  const results = Array.from({ length: ROUNDS }, () => measure(Model))
+  const median = values => values.sort((a, b) => a - b)[Math.floor(ROUNDS / 2)]
+
+  return {
+    "decode + values() (ms)": median(results.map(r => r.duration)).toFixed(1),
+    "retained heap (MB)": (
+      median(results.map(r => r.heap)) /
+      1024 /
+      1024
+    ).toFixed(1)
+  }
+}
+
+const baseline = process.argv[2]
+
+console.log(`Decoding ${COUNT} instances, median of ${ROUNDS} rounds`)
+console.table({
+  current: run(define("../dist/cjs")),
+  ...(baseline
+    ? { baseline: run(define(path.resolve(process.cwd(), baseline))) }
+    : {})
+})
+if (!global.gc)
+  console.log("Run with `node --expose-gc` for stable heap sizes.")
@@ -0,0 +1,124 @@
+import * as t from "../t"
+import { model } from "../model"
+import { toJSONSchema } from "../json-schema"
+
+class Document extends model(
+  "Document",
+  t.intersection([
+    t.type({ ownerId: t.string, createdAt: t.DateFromISOString }),
+    t.partial({ title: t.string })
+  ]),
+  { aliases: { ownerId: "userId", title: { from: ["name", "label"] } } }
+) {}
+
+class Transitional extends model(
+  "Transitional",
+  t.type({ ownerId: t.string, createdAt: t.DateFromISOString }),
+  {
+    aliases: {
+      ownerId: { from: "userId", write: true },
+      createdAt: { from: "created", write: true }
+    }
+  }
+) {}
+
+describe("aliases", () => {
+  test("it decodes legacy field names", () => {
+    const document = Document.from({
+      userId: "user-1",
+      createdAt: "2021-01-01T00:00:00.000Z",
+      label: "Label"
+    })
+
+    expect(document.values()).toEqual({
+      ownerId: "user-1",
+      createdAt: new Date("2021-01-01T00:00:00.000Z"),
+      title: "Label"
+    })
+    expect(document.encode()).toEqual({
+      _tag: "Document",
+      ownerId: "user-1",
+      createdAt: "2021-01-01T00:00:00.000Z",
+      title: "Label"
+    })
+  })
+
+  test("it prefers current field names", () => {
+    const document = Document.from({
+      ownerId: "user-1",
+      userId: "user-2",
+      createdAt: "2021-01-01T00:00:00.000Z",
+      name: "Name",
+      label: "Label"
+    })
+
+    expect(document.ownerId).toEqual("user-1")
+    expect(document.title).toEqual("Name")
+  })
+
+  test("it accepts legacy field names in decode and validate", () => {
+    const value = { userId: "user-1", createdAt: "2021-01-01T00:00:00.000Z" }
+
+    expect(Document.decode(value)).toMatchObject({
+      _tag: "Right",
+      right: { ownerId: "user-1" }
+    })
+    expect(t.array(Document).decode([value])).toMatchObject({
+      _tag: "Right",
+      right: [{ ownerId: "user-1" }]
+    })
+  })
+
+  test("it keeps writing legacy field names", () => {
+    const document = Transitional.from({
+      userId: "user-1",
+      created: "2021-01-01T00:00:00.000Z"
+    })
+
+    expect(document.encode()).toEqual({
+      _tag: "Transitional",
+      ownerId: "user-1",
+      userId: "user-1",
+      createdAt: "2021-01-01T00:00:00.000Z",
+      created: "2021-01-01T00:00:00.000Z"
+    })
+    expect(document.with({ ownerId: "user-2" }).encode()).toMatchObject({
+      ownerId: "user-2",
+      userId: "user-2"
+    })
+  })
+
+  test("it encodes legacy field names onto the current field", () => {
+    const date = new Date("2021-01-01T00:00:00.000Z")
+
+    expect(Transitional.encodeProp("created" as any, date)).toEqual(
+      "2021-01-01T00:00:00.000Z"
+    )
+    expect(Document.encodeProps({ userId: "user-1" } as any)).toEqual({
+      ownerId: "user-1"
+    })
+    expect(
+      Transitional.encodeProps({ created: date, other: 1 } as any)
+    ).toEqual({
+      createdAt: "2021-01-01T00:00:00.000Z",
+      created: "2021-01-01T00:00:00.000Z",
+      other: 1
+    })
+  })
+
+  test("it declares written legacy fields in the JSON schema", () => {
+    const properties = toJSONSchema(Transitional).$defs?.Transitional.properties
+
+    expect(Object.keys(properties ?? {}).sort()).toEqual([
+      "_tag",
+      "created",
+      "createdAt",
+      "ownerId",
+      "userId"
+    ])
+    expect(properties?.userId).toEqual(properties?.ownerId)
+    expect(
+      Object.keys(toJSONSchema(Document).$defs?.Document.properties ?? {})
+    ).not.toContain("userId")
+  })
+})
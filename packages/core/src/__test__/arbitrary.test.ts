@@ -0,0 +1,125 @@
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { nested } from "../nested"
+import { arbitrary, createRandom, sample } from "../arbitrary"
+
+class Address extends model(
+  "Address",
+  t.type({ street: t.NonEmptyString, zip: t.IntFromString })
+) {}
+
+class User extends model(
+  "User",
+  t.intersection([
+    t.type({
+      id: t.NonEmptyString,
+      role: t.keyof({ admin: null, member: null }),
+      kind: t.literal("user"),
+      age: t.Int,
+      tags: t.nonEmptyArray(t.string),
+      address: nested(Address),
+      createdAt: t.DateFromISOString,
+      balance: t.BigIntFromString,
+      scores: t.record(t.string, t.number),
+      flags: t.record(t.keyof({ a: null, b: null }), t.boolean)
+    }),
+    t.partial({
+      nickname: t.union([t.string, t.null]),
+      location: t.tuple([t.number, t.number])
+    })
+  ])
+) {}
+
+class Group extends model(
+  "Group",
+  t.type({ name: t.string, members: t.array(User) })
+) {}
+
+class UserOrGroup extends union([User, Group]) {}
+
+describe("arbitrary", () => {
+  test("it generates model instances", () => {
+    const users = sample(User, { seed: 1, count: 50 })
+
+    users.forEach(user => {
+      expect(user).toBeInstanceOf(User)
+      expect(user.address).toBeInstanceOf(Address)
+      expect(user.createdAt).toBeInstanceOf(Date)
+      expect(typeof user.balance).toEqual("bigint")
+      expect(Object.keys(user.flags).sort()).toEqual(["a", "b"])
+      expect(User.decode(user.encode())._tag).toEqual("Right")
+    })
+  })
+
+  test("it is deterministic given a seed", () => {
+    const encode = (seed: number) =>
+      sample(User, { seed, count: 5 }).map(user => user.encode())
+
+    expect(encode(42)).toEqual(encode(42))
+    expect(encode(42)).not.toEqual(encode(43))
+    expect(arbitrary(User)(createRandom(7)).encode()).toEqual(
+      arbitrary(User)(createRandom(7)).encode()
+    )
+  })
+
+  test("it generates union members", () => {
+    const values = sample(UserOrGroup, { seed: 3, count: 20 })
+
+    expect(values.some(value => value instanceof User)).toBe(true)
+    expect(values.some(value => value instanceof Group)).toBe(true)
+  })
+
+  test("it generates io-ts codecs", () => {
+    const codec = t.array(t.union([t.literal("a"), t.number]))
+
+    sample(codec, { seed: 5 }).forEach(value =>
+      expect(codec.is(value)).toBe(true)
+    )
+  })
+
+  test("it limits the depth of recursive codecs", () => {
+    interface Tree {
+      children: Tree[]
+    }
+    const Tree: t.Type<Tree> = t.recursion("Tree", () =>
+      t.type({ children: t.array(Tree) })
+    )
+
+    const depth = (tree: Tree): number =>
+      1 + Math.max(0, ...tree.children.map(depth))
+
+    sample(Tree, { seed: 1, maxDepth: 2 }).forEach(tree =>
+      expect(depth(tree)).toBeLessThanOrEqual(4)
+    )
+  })
+
+  test("it regenerates values failing refinements and invariants", () => {
+    class Range extends model(
+      "Range",
+      t.type({
+        from: t.withValidation(t.number, value => value >= 0),
+        to: t.number
+      }),
+      { invariants: [{ check: ({ from, to }) => to > from, message: "" }] }
+    ) {}
+
+    sample(Range, { seed: 1 }).forEach(range => {
+      expect(range.from).toBeGreaterThanOrEqual(0)
+      expect(range.to).toBeGreaterThan(range.from)
+    })
+  })
+
+  test("it throws for unsupported codecs", () => {
+    const custom = new t.Type(
+      "Custom",
+      (value): value is string => typeof value === "string",
+      t.success,
+      t.identity
+    )
+
+    expect(() => arbitrary(custom)).toThrowErrorMatchingInlineSnapshot(
+      `"Can't generate values for codec Custom."`
+    )
+  })
+})
@@ -0,0 +1,184 @@
+import { isRight } from "fp-ts/lib/Either"
+import * as t from "../t"
+import { model } from "../model"
+import { arbitrary, createRandom } from "../arbitrary"
+import { toJSONSchema } from "../json-schema"
+
+const valid = (codec: t.Any, value: unknown) => isRight(codec.decode(value))
+
+describe("codecs", () => {
+  test("it validates formatted strings", () => {
+    expect(valid(t.UUID, "123e4567-e89b-12d3-a456-426614174000")).toBe(true)
+    expect(valid(t.UUID, "123e4567")).toBe(false)
+    expect(valid(t.ULID, "01ARZ3NDEKTSV4RRFFQ69G5FAV")).toBe(true)
+    expect(valid(t.ULID, "01arz3ndektsv4rrffq69g5fav")).toBe(false)
+    expect(valid(t.KSUID, "0ujtsYcgvSTl8PAuAdqWYSMnLOv")).toBe(true)
+    expect(valid(t.KSUID, "zzzzzzzzzzzzzzzzzzzzzzzzzzz")).toBe(false)
+    expect(valid(t.Email, "jane@example.com")).toBe(true)
+    expect(valid(t.Email, "jane@example")).toBe(false)
+    expect(valid(t.URL, "https://example.com/path")).toBe(true)
+    expect(valid(t.URL, "/path")).toBe(false)
+    expect(valid(t.ISODate, "2024-02-29")).toBe(true)
+    expect(valid(t.ISODate, "2023-02-29")).toBe(false)
+    expect(valid(t.ISODate, "2024-02-29T00:00:00Z")).toBe(false)
+    expect(valid(t.ISODuration, "P1DT12H")).toBe(true)
+    expect(valid(t.ISODuration, "PT0.5S")).toBe(true)
+    expect(valid(t.ISODuration, "P")).toBe(false)
+    expect(valid(t.ISODuration, "P1DT")).toBe(false)
+  })
+
+  test("it validates numbers, bounded strings and enums", () => {
+    expect(valid(t.NonNegativeInt, 0)).toBe(true)
+    expect(valid(t.NonNegativeInt, -1)).toBe(false)
+    expect(valid(t.PositiveInt, 0)).toBe(false)
+    expect(valid(t.PositiveInt, 1.5)).toBe(false)
+    expect(valid(t.decimalString(2), "-12.50")).toBe(true)
+    expect(valid(t.decimalString(2), "12.501")).toBe(false)
+    expect(valid(t.decimalString(0), "12.5")).toBe(false)
+    expect(valid(t.boundedString(2, 3), "abc")).toBe(true)
+    expect(valid(t.boundedString(2, 3), "a")).toBe(false)
+
+    const Price = t.decimalString(2)
+    const price = "1.50" as t.TypeOf<typeof Price>
+    const amount: t.DecimalString = price
+    const setRate = (rate: t.DecimalString<4>) => rate
+
+    // @ts-expect-error
+    setRate(price)
+    expect(valid(Price, amount)).toBe(true)
+
+    const Role = t.enumOf(["admin", "member"] as const)
+    const role: t.TypeOf<typeof Role> = "admin"
+
+    expect(valid(Role, role)).toBe(true)
+    expect(valid(Role, "owner")).toBe(false)
+  })
+
+  test("it reports readable errors", () => {
+    class User extends model(
+      "User",
+      t.type({
+        email: t.Email,
+        role: t.enumOf(["admin", "member"] as const),
+        age: t.PositiveInt
+      })
+    ) {}
+
+    expect(() => User.from({ email: "jane", role: "owner", age: -1 }))
+      .toThrowErrorMatchingInlineSnapshot(`
+      "Expecting PositiveInt at age but instead got: -1 (Expected a positive integer)
+      Expecting Email at email but instead got: "jane" (Expected an email address)
+      Expecting "admin" | "member" at role but instead got: "owner" (Expected one of "admin", "member")"
+    `)
+  })
+
+  test("it brands identifiers per model", () => {
+    class User extends model("User", t.type({ id: t.id("User", t.ULID) })) {}
+    class Post extends model("Post", t.type({ id: t.id("Post") })) {}
+
+    const user = User.from({ id: "01ARZ3NDEKTSV4RRFFQ69G5FAV" })
+    const getPost = (id: t.Id<"Post">) => id
+
+    // @ts-expect-error
+    getPost(user.id)
+    expect(getPost(Post.from({ id: "post" }).id)).toEqual("post")
+    expect(() => User.from({ id: "user" })).toThrow("Expected a ULID")
+    expect(() => Post.from({ id: "" })).toThrow("Expected a non-empty Post id")
+  })
+
+  test("it generates chronologically sorted ids", () => {
+    const dates = [0, 1000, 1e12, 4e12].map(time => new Date(1.4e12 + time))
+    const ulids = dates.map(date => t.generateULID(date))
+    const ksuids = dates.map(date => t.generateKSUID(date))
+
+    expect(ulids.every(id => valid(t.ULID, id))).toBe(true)
+    expect(ksuids.every(id => valid(t.KSUID, id))).toBe(true)
+    expect([...ulids].sort()).toEqual(ulids)
+    expect([...ksuids].sort()).toEqual(ksuids)
+    expect(t.generateULID()).not.toEqual(t.generateULID())
+    expect(() => t.generateKSUID(new Date(0))).toThrow(
+      "Can't generate a KSUID for 1970-01-01T00:00:00.000Z."
+    )
+  })
+
+  test("it keeps formats of derived codecs", () => {
+    expect(t.formatOf(t.sensitive(t.Email))).toEqual({ kind: "Email" })
+    expect(t.formatOf(t.decimalString(2))).toEqual({
+      kind: "DecimalString",
+      scale: 2
+    })
+    expect(t.formatOf(t.string)).toBeUndefined()
+
+    // Codecs are detected by their format rather than their name
+    const Renamed = Object.assign(t.boundedString(1, 3), { name: "Name" })
+    expect(toJSONSchema(Renamed)).toMatchObject({ maxLength: 3 })
+
+    const ULID = new t.Type("ULID", t.string.is, t.string.validate, t.identity)
+    expect(toJSONSchema(ULID)).not.toHaveProperty("pattern")
+  })
+
+  test("it generates arbitrary values and JSON schemas", () => {
+    const codec = t.type({
+      uuid: t.UUID,
+      ulid: t.ULID,
+      ksuid: t.KSUID,
+      email: t.Email,
+      url: t.URL,
+      date: t.ISODate,
+      duration: t.ISODuration,
+      count: t.NonNegativeInt,
+      amount: t.decimalString(2),
+      name: t.boundedString(1, 3)
+    })
+
+    const random = createRandom(42)
+    for (let index = 0; index < 20; index++)
+      expect(valid(codec, codec.encode(arbitrary(codec)(random)))).toBe(true)
+
+    expect(toJSONSchema(codec).properties).toMatchInlineSnapshot(`
+      {
+        "amount": {
+          "pattern": "^-?\\d+(\\.\\d{1,2})?$",
+          "type": "string",
+        },
+        "count": {
+          "minimum": 0,
+          "type": "integer",
+        },
+        "date": {
+          "format": "date",
+          "type": "string",
+        },
+        "duration": {
+          "format": "duration",
+          "type": "string",
+        },
+        "email": {
+          "format": "email",
+          "type": "string",
+        },
+        "ksuid": {
+          "pattern": "^[0-9A-Za-z]{27}$",
+          "type": "string",
+        },
+        "name": {
+          "maxLength": 3,
+          "minLength": 1,
+          "type": "string",
+        },
+        "ulid": {
+          "pattern": "^[0-7][0-9A-HJKMNP-TV-Z]{25}$",
+          "type": "string",
+        },
+        "url": {
+          "format": "uri",
+          "type": "string",
+        },
+        "uuid": {
+          "format": "uuid",
+          "type": "string",
+        },
+      }
+    `)
+  })
+})
@@ -0,0 +1,34 @@
+import { getContext, runWithContext } from "../context"
+
+describe("context", () => {
+  test("it provides the context to the function", () => {
+    const result = runWithContext({ tenantId: "tenant" }, () => getContext())
+
+    expect(result).toEqual({ tenantId: "tenant" })
+    expect(getContext()).toEqual({})
+  })
+
+  test("it propagates the context to asynchronous work", async () => {
+    const read = async () => {
+      await new Promise(resolve => setTimeout(resolve, 1))
+      return getContext().traceId
+    }
+
+    const results = await Promise.all([
+      runWithContext({ traceId: "a" }, read),
+      runWithContext({ traceId: "b" }, read)
+    ])
+
+    expect(results).toEqual(["a", "b"])
+  })
+
+  test("it merges nested contexts", () => {
+    runWithContext({ tenantId: "tenant", actor: "user" }, () => {
+      runWithContext({ actor: "system" }, () =>
+        expect(getContext()).toEqual({ tenantId: "tenant", actor: "system" })
+      )
+
+      expect(getContext()).toEqual({ tenantId: "tenant", actor: "user" })
+    })
+  })
+})
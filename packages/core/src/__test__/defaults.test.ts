@@ -0,0 +1,242 @@
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { toJSONSchema } from "../json-schema"
+import { toGraphQLSDL } from "../graphql"
+import { describe as describeModel } from "../describe"
+
+describe("defaults", () => {
+  class Task extends model(
+    "Task",
+    t.type({
+      title: t.string,
+      status: t.keyof({ open: null, done: null }),
+      tags: t.array(t.string),
+      createdAt: t.DateFromISOString
+    }),
+    {
+      defaults: {
+        status: "open",
+        tags: () => [],
+        createdAt: () => new Date("2021-01-01T00:00:00.000Z")
+      }
+    }
+  ) {}
+
+  test("it applies defaults when decoding", () => {
+    const task = Task.from({ title: "Write tests" })
+
+    expect(task.values()).toEqual({
+      title: "Write tests",
+      status: "open",
+      tags: [],
+      createdAt: new Date("2021-01-01T00:00:00.000Z")
+    })
+  })
+
+  test("it doesn't override present values", () => {
+    const task = Task.from({
+      title: "Write tests",
+      status: "done",
+      createdAt: "2022-01-01T00:00:00.000Z"
+    })
+
+    expect(task.status).toEqual("done")
+    expect(task.createdAt).toEqual(new Date("2022-01-01T00:00:00.000Z"))
+  })
+
+  test("it applies defaults when constructing", () => {
+    const task = new Task({ title: "Write tests", status: "done" })
+
+    expect(task.status).toEqual("done")
+    expect(task.createdAt).toEqual(new Date("2021-01-01T00:00:00.000Z"))
+    expect(task.encode()).toEqual({
+      _tag: "Task",
+      title: "Write tests",
+      status: "done",
+      tags: [],
+      createdAt: "2021-01-01T00:00:00.000Z"
+    })
+  })
+
+  test("it creates new values from factories", () => {
+    const a = new Task({ title: "a" })
+    const b = new Task({ title: "b" })
+
+    expect(a.tags).not.toBe(b.tags)
+  })
+
+  test("it copies static object and array defaults", () => {
+    class Post extends model(
+      "Post",
+      t.type({
+        tags: t.array(t.string),
+        meta: t.type({ views: t.number })
+      }),
+      { defaults: { tags: [], meta: { views: 0 } } }
+    ) {}
+
+    const a = new Post({})
+    a.tags.push("a")
+    a.meta.views++
+    const b = Post.from({})
+
+    expect(b.tags).toEqual([])
+    expect(b.meta).toEqual({ views: 0 })
+  })
+
+  test("it still requires fields without defaults", () => {
+    // @ts-expect-error
+    new Task({ status: "open" })
+
+    expect(() => Task.from({ status: "open" })).toThrow()
+  })
+
+  test("it requires defaults to match the codec", () => {
+    // @ts-expect-error
+    model("Invalid", t.type({ status: t.keyof({ open: null, done: null }) }), {
+      defaults: { status: "invalid" }
+    })
+  })
+
+  test("it applies defaults after migrations", () => {
+    class Versioned extends model(
+      "Versioned",
+      t.type({ name: t.string, color: t.string }),
+      {
+        version: 2,
+        migrations: [({ label, ...rest }) => ({ ...rest, name: label })],
+        defaults: { color: "gray" }
+      }
+    ) {}
+
+    expect(Versioned.from({ label: "a" }).values()).toEqual({
+      name: "a",
+      color: "gray"
+    })
+  })
+})
+
+describe("computed", () => {
+  class User extends model(
+    "User",
+    t.type({ firstName: t.string, lastName: t.string }),
+    {
+      computed: {
+        searchKey: values =>
+          `${values.lastName} ${values.firstName}`.toLowerCase(),
+        initials: values => values.firstName[0] + values.lastName[0]
+      }
+    }
+  ) {}
+
+  const user = new User({ firstName: "Jane", lastName: "Doe" })
+
+  test("it exposes computed fields on instances", () => {
+    const searchKey: string = user.searchKey
+
+    expect(searchKey).toEqual("doe jane")
+    expect(user.initials).toEqual("JD")
+  })
+
+  test("it includes computed fields in the encoded output", () => {
+    const encoded = user.encode()
+
+    expect(encoded).toEqual({
+      _tag: "User",
+      firstName: "Jane",
+      lastName: "Doe",
+      searchKey: "doe jane",
+      initials: "JD"
+    })
+    expect(encoded.searchKey).toEqual("doe jane")
+  })
+
+  test("it excludes computed fields from values", () => {
+    expect(user.values()).toEqual({ firstName: "Jane", lastName: "Doe" })
+  })
+
+  test("it recomputes fields of derived instances", () => {
+    expect(user.with({ firstName: "John" }).searchKey).toEqual("doe john")
+  })
+
+  test("it ignores stored computed values when decoding", () => {
+    const decoded = User.from({
+      _tag: "User",
+      firstName: "Jane",
+      lastName: "Roe",
+      searchKey: "outdated"
+    })
+
+    expect(decoded.searchKey).toEqual("roe jane")
+    expect(
+      new User({ firstName: "Jane", lastName: "Roe", searchKey: "x" } as any)
+        .searchKey
+    ).toEqual("roe jane")
+  })
+
+  test("it includes computed fields of nested models", () => {
+    class Team extends model("Team", t.type({ members: t.array(User) })) {}
+
+    expect(new Team({ members: [user] }).encode().members).toEqual([
+      user.encode()
+    ])
+  })
+
+  test("it declares computed fields as read-only fields", () => {
+    const schema = toJSONSchema(User)
+    const properties = schema.$defs?.User.properties ?? {}
+
+    expect(Object.keys(user.encode())).toEqual(
+      expect.arrayContaining(Object.keys(properties))
+    )
+    expect(Object.keys(properties)).toEqual(
+      expect.arrayContaining(Object.keys(user.encode()))
+    )
+    expect(properties.searchKey).toEqual({ readOnly: true })
+    expect(toGraphQLSDL({ types: [User], inputs: [User] }))
+      .toMatchInlineSnapshot(`
+      "scalar JSON
+
+      type User {
+        firstName: String!
+        lastName: String!
+        searchKey: JSON
+        initials: JSON
+      }
+
+      input UserInput {
+        firstName: String!
+        lastName: String!
+      }"
+    `)
+    expect(describeModel(User).fields.slice(2)).toMatchInlineSnapshot(`
+      [
+        {
+          "computed": true,
+          "encoded": "unknown",
+          "kind": "unknown",
+          "name": "searchKey",
+          "required": true,
+          "type": "unknown",
+        },
+        {
+          "computed": true,
+          "encoded": "unknown",
+          "kind": "unknown",
+          "name": "initials",
+          "required": true,
+          "type": "unknown",
+        },
+      ]
+    `)
+  })
+
+  test("it works with unions", () => {
+    class Other extends model("Other", t.type({ other: t.string })) {}
+    class UserOrOther extends union([User, Other]) {}
+
+    const decoded = UserOrOther.from({ firstName: "Jane", lastName: "Doe" })
+    expect(decoded.encode()).toEqual(user.encode())
+  })
+})
@@ -0,0 +1,215 @@
+import * as t from "../t"
+import { model } from "../model"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+import { ModelConstructor } from "../utils"
+
+const PROVIDER = {
+  classProps: {
+    origin: "provider"
+  },
+  instanceProps: {
+    greet<T extends { name?: string }>(this: T) {
+      return `Hello ${this.name}`
+    }
+  }
+}
+
+class User extends model(
+  "User",
+  t.intersection([
+    t.type({
+      id: t.string,
+      name: t.string,
+      createdAt: t.DateFromISOString
+    }),
+    t.partial({ bio: t.string, tags: t.array(t.string) })
+  ]),
+  PROVIDER
+) {}
+
+describe("pick", () => {
+  class UserName extends User.pick("UserName", ["name", "bio"]) {}
+
+  test("it keeps only the given fields", () => {
+    const value = UserName.from({ name: "Anna", id: "1", bio: "Hi" })
+
+    expect(value).toBeInstanceOf(UserName)
+    expect(value._tag).toEqual("UserName")
+    expect(value.values()).toEqual({ name: "Anna", bio: "Hi" })
+    expect(value.encode()).toEqual({
+      _tag: "UserName",
+      name: "Anna",
+      bio: "Hi"
+    })
+  })
+
+  test("it keeps optionality", () => {
+    const name: string = UserName.from({ name: "Anna" }).name
+    const bio: string | undefined = UserName.from({ name: "Anna" }).bio
+
+    expect([name, bio]).toEqual(["Anna", undefined])
+    expect(() => UserName.from({ bio: "Hi" })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+
+  test("it only accepts known fields", () => {
+    // @ts-expect-error
+    User.pick("Invalid", ["unknown"])
+  })
+})
+
+describe("omit", () => {
+  class CreateUserInput extends User.omit("CreateUserInput", [
+    "id",
+    "createdAt"
+  ]) {}
+
+  test("it removes the given fields", () => {
+    const input = CreateUserInput.from({ id: "1", name: "Anna", tags: ["a"] })
+
+    expect(input.values()).toEqual({ name: "Anna", tags: ["a"] })
+
+    const hasId: "id" extends keyof t.TypeOf<typeof CreateUserInput["_codec"]>
+      ? true
+      : false = false
+    expect(hasId).toBe(false)
+  })
+
+  test("it keeps the codecs of the remaining fields", () => {
+    expect(() => CreateUserInput.from({ name: "Anna", tags: [1] })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+})
+
+describe("partial", () => {
+  class UserPatch extends User.partial("UserPatch") {}
+
+  test("it makes all fields optional", () => {
+    expect(UserPatch.from({}).values()).toEqual({})
+
+    const patch = UserPatch.from({ createdAt: "2021-01-01T00:00:00.000Z" })
+    const createdAt: Date | undefined = patch.createdAt
+
+    expect(createdAt).toEqual(new Date("2021-01-01T00:00:00.000Z"))
+    expect(() => UserPatch.from({ name: 42 })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+})
+
+describe("extend", () => {
+  const Validated = model(
+    "Validated",
+    t.withValidation(
+      t.type({ min: t.number, max: t.number }),
+      ({ min, max }) => min <= max
+    )
+  )
+
+  class Admin extends User.extend("Admin", { permissions: t.array(t.string) }) {
+    get isSuperuser() {
+      return this.permissions.includes("*")
+    }
+  }
+
+  test("it adds the given fields", () => {
+    const admin = Admin.from({
+      id: "1",
+      name: "Anna",
+      createdAt: "2021-01-01T00:00:00.000Z",
+      permissions: ["*"]
+    })
+
+    expect(admin).toBeInstanceOf(Admin)
+    expect(admin).not.toBeInstanceOf(User)
+    expect(admin.isSuperuser).toBe(true)
+    expect(admin.encode()).toEqual({
+      _tag: "Admin",
+      id: "1",
+      name: "Anna",
+      createdAt: "2021-01-01T00:00:00.000Z",
+      permissions: ["*"]
+    })
+    expect(() =>
+      Admin.from({
+        id: "1",
+        name: "Anna",
+        createdAt: "2021-01-01T00:00:00.000Z"
+      })
+    ).toThrow(RuntimeTypeValidationError)
+  })
+
+  test("it keeps validations of the original codec", () => {
+    const Range = Validated.extend("Range", { step: t.number })
+
+    expect(Range.from({ min: 1, max: 2, step: 1 }).step).toEqual(1)
+    expect(() => Range.from({ min: 2, max: 1, step: 1 })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+})
+
+describe("options", () => {
+  test("it doesn't carry over the provider by default", () => {
+    const UserName = User.pick("UserName", ["name"])
+
+    expect((UserName as any).origin).toBeUndefined()
+    expect((UserName.from({ name: "Anna" }) as any).greet).toBeUndefined()
+  })
+
+  test("it carries over the provider", () => {
+    const UserName = User.pick("UserName", ["name"], { provider: true })
+
+    expect(UserName.origin).toEqual("provider")
+    expect(UserName.from({ name: "Anna" }).greet()).toEqual("Hello Anna")
+    expect(User.partial("UserPatch", { provider: true }).origin).toEqual(
+      "provider"
+    )
+  })
+
+  test("it applies model options", () => {
+    const UserPatch = User.partial("UserPatch", {
+      version: 2,
+      migrations: [({ fullName, ...rest }) => ({ ...rest, name: fullName })]
+    })
+
+    expect(UserPatch.from({ fullName: "Anna" }).name).toEqual("Anna")
+    expect(UserPatch.from({ fullName: "Anna" }).encode()).toEqual({
+      _tag: "UserPatch",
+      _version: 2,
+      name: "Anna"
+    })
+  })
+})
+
+describe("model constructors", () => {
+  test("it derives typed models from any model", () => {
+    const timestamped = <M extends ModelConstructor>(model: M) =>
+      model.extend(`Timestamped${model._tag}`, {
+        updatedAt: t.DateFromISOString
+      })
+
+    const TimestampedUser = timestamped(User)
+    const user = TimestampedUser.from({
+      id: "1",
+      name: "Anna",
+      createdAt: "2021-01-01T00:00:00.000Z",
+      updatedAt: "2021-01-02T00:00:00.000Z"
+    })
+    const updatedAt: Date = user.updatedAt
+    const name: string = user.name
+    // @ts-expect-error
+    const invalid: number = user.updatedAt
+
+    expect([updatedAt, name, invalid]).toEqual([
+      new Date("2021-01-02T00:00:00.000Z"),
+      "Anna",
+      updatedAt
+    ])
+    expect(TimestampedUser.describe().fields.map(({ name }) => name)).toContain(
+      "updatedAt"
+    )
+  })
+})
@@ -0,0 +1,249 @@
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { describe as describeCodec } from "../describe"
+
+class Address extends model(
+  "Address",
+  t.type({ street: t.string, lines: t.array(t.string) })
+) {}
+
+class User extends model(
+  "User",
+  t.intersection([
+    t.type({
+      name: t.NonEmptyString,
+      role: t.keyof({ admin: null, member: null }),
+      status: t.union([t.literal("active"), t.literal("disabled")]),
+      createdAt: t.DateFromISOString,
+      address: Address,
+      token: t.sensitive(t.string)
+    }),
+    t.partial({
+      age: t.Int,
+      tags: t.array(t.string),
+      nickname: t.union([t.string, t.null])
+    })
+  ]),
+  { version: 2, migrations: [value => value] }
+) {}
+
+class Group extends model(
+  "Group",
+  t.intersection([
+    t.type({ name: t.string }),
+    t.partial({ name: t.string, owner: User })
+  ])
+) {}
+
+describe("describe", () => {
+  test("it describes models", () => {
+    expect(User.describe()).toMatchInlineSnapshot(`
+      {
+        "encoded": "User",
+        "fields": [
+          {
+            "encoded": "string",
+            "kind": "string",
+            "name": "name",
+            "refinements": [
+              "NonEmptyString",
+            ],
+            "required": true,
+            "type": "NonEmptyString",
+          },
+          {
+            "encoded": ""admin" | "member"",
+            "kind": "enum",
+            "name": "role",
+            "options": [
+              "admin",
+              "member",
+            ],
+            "required": true,
+            "type": ""admin" | "member"",
+          },
+          {
+            "encoded": ""active" | "disabled"",
+            "kind": "enum",
+            "name": "status",
+            "options": [
+              "active",
+              "disabled",
+            ],
+            "required": true,
+            "type": "("active" | "disabled")",
+          },
+          {
+            "encoded": "string",
+            "kind": "date",
+            "name": "createdAt",
+            "required": true,
+            "type": "Date",
+          },
+          {
+            "encoded": "Address",
+            "fields": [
+              {
+                "encoded": "string",
+                "kind": "string",
+                "name": "street",
+                "required": true,
+                "type": "string",
+              },
+              {
+                "element": {
+                  "encoded": "string",
+                  "kind": "string",
+                  "type": "string",
+                },
+                "encoded": "Array<string>",
+                "kind": "array",
+                "name": "lines",
+                "required": true,
+                "type": "Array<string>",
+              },
+            ],
+            "kind": "model",
+            "name": "address",
+            "required": true,
+            "tag": "Address",
+            "type": "Address",
+          },
+          {
+            "encoded": "string",
+            "kind": "string",
+            "name": "token",
+            "required": true,
+            "sensitive": true,
+            "type": "string",
+          },
+          {
+            "encoded": "number",
+            "kind": "number",
+            "name": "age",
+            "refinements": [
+              "Int",
+            ],
+            "required": false,
+            "type": "Int",
+          },
+          {
+            "element": {
+              "encoded": "string",
+              "kind": "string",
+              "type": "string",
+            },
+            "encoded": "Array<string>",
+            "kind": "array",
+            "name": "tags",
+            "required": false,
+            "type": "Array<string>",
+          },
+          {
+            "encoded": "string | null",
+            "kind": "union",
+            "members": [
+              {
+                "encoded": "string",
+                "kind": "string",
+                "type": "string",
+              },
+              {
+                "encoded": "null",
+                "kind": "null",
+                "type": "null",
+              },
+            ],
+            "name": "nickname",
+            "required": false,
+            "type": "(string | null)",
+          },
+        ],
+        "kind": "model",
+        "tag": "User",
+        "type": "User",
+        "version": 2,
+      }
+    `)
+  })
+
+  test("it keeps fields required by any member of an intersection required", () => {
+    expect(
+      Group.describe().fields.map(({ name, required }) => ({ name, required }))
+    ).toEqual([
+      { name: "name", required: true },
+      { name: "owner", required: false }
+    ])
+  })
+
+  test("it describes unions", () => {
+    class Member extends union([User, Group]) {}
+
+    const descriptor = Member.describe()
+
+    expect(descriptor.kind).toEqual("union")
+    expect(descriptor.tags).toEqual(["User", "Group"])
+    expect(descriptor.members.map(({ fields }) => fields.length)).toEqual([
+      9, 2
+    ])
+  })
+
+  test("it stops at recursive codecs", () => {
+    interface Tree {
+      label: string
+      children: Tree[]
+    }
+
+    const Tree: t.Type<Tree> = t.recursion("Tree", () =>
+      t.type({ label: t.string, children: t.array(Tree) })
+    )
+
+    class Category extends model("Category", t.type({ tree: Tree })) {}
+
+    const [tree] = Category.describe().fields
+
+    expect(tree).toMatchObject({ name: "tree", kind: "object", type: "Tree" })
+    expect(tree.fields?.[1].element).toEqual({
+      kind: "unknown",
+      type: "Tree",
+      encoded: "Tree"
+    })
+  })
+
+  test("it describes io-ts codecs", () => {
+    expect(
+      describeCodec(
+        t.type({
+          pair: t.tuple([t.string, t.NumberFromString]),
+          scores: t.record(t.string, t.number),
+          items: t.nonEmptyArray(t.BooleanFromString),
+          any: t.unknown
+        })
+      )
+    ).toMatchObject({
+      kind: "object",
+      encoded:
+        "{ pair: [string, string], scores: { [K in string]: number }, items: Array<string>, any?: unknown }",
+      fields: [
+        {
+          name: "pair",
+          kind: "tuple",
+          elements: [{ kind: "string" }, { kind: "number" }]
+        },
+        {
+          name: "scores",
+          kind: "record",
+          key: { kind: "string" },
+          element: { kind: "number" }
+        },
+        {
+          name: "items",
+          kind: "array",
+          element: { kind: "boolean", encoded: "string" }
+        },
+        { name: "any", kind: "unknown", required: false }
+      ]
+    })
+  })
+})
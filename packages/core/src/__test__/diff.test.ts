@@ -0,0 +1,92 @@
+import * as t from "../t"
+import { model } from "../model"
+import { diff, equals } from "../diff"
+
+class Address extends model(
+  "Address",
+  t.type({ street: t.string, lines: t.array(t.string) })
+) {}
+
+class User extends model(
+  "User",
+  t.intersection([
+    t.type({
+      name: t.string,
+      balance: t.BigIntFromString,
+      createdAt: t.DateFromISOString,
+      address: Address
+    }),
+    t.partial({ nickname: t.string })
+  ])
+) {}
+
+class Other extends model("Other", t.type({ name: t.string })) {}
+
+const user = new User({
+  name: "Jane",
+  balance: BigInt(10),
+  createdAt: new Date("2021-01-01T00:00:00.000Z"),
+  address: new Address({ street: "Main St", lines: ["a", "b"] })
+})
+
+describe("equals", () => {
+  test("it compares encoded values", () => {
+    const copy = new User({
+      name: "Jane",
+      balance: BigInt(10),
+      createdAt: new Date("2021-01-01T00:00:00.000Z"),
+      address: new Address({ street: "Main St", lines: ["a", "b"] })
+    })
+
+    expect(user.equals(copy)).toBe(true)
+    expect(user.equals(user.with({ balance: BigInt(11) }))).toBe(false)
+    expect(
+      user.equals(user.with({ createdAt: new Date("2021-01-02T00:00:00Z") }))
+    ).toBe(false)
+  })
+
+  test("it treats missing and undefined values as equal", () => {
+    expect(user.equals(user.with({ nickname: undefined }))).toBe(true)
+    expect(equals({ a: 1, b: undefined }, { a: 1 })).toBe(true)
+  })
+
+  test("it compares tags", () => {
+    const a = new User({ ...user.values(), name: "x" })
+    const b = new Other({ name: "x" })
+
+    expect(a.equals(b)).toBe(false)
+  })
+
+  test("it compares dates", () => {
+    expect(equals(new Date(0), new Date(0))).toBe(true)
+    expect(equals(new Date(0), new Date(1))).toBe(false)
+  })
+})
+
+describe("diff", () => {
+  test("it returns no changes for equal instances", () => {
+    expect(user.diff(user.with({}))).toEqual([])
+  })
+
+  test("it returns changed paths with encoded values", () => {
+    const updated = user.with({
+      balance: BigInt(20),
+      nickname: "J",
+      address: new Address({ street: "Main St", lines: ["a", "c", "d"] })
+    })
+
+    expect(user.diff(updated)).toEqual([
+      { path: ["address", "lines", 1], before: "b", after: "c" },
+      { path: ["address", "lines", 2], before: undefined, after: "d" },
+      { path: ["balance"], before: "10", after: "20" },
+      { path: ["nickname"], before: undefined, after: "J" }
+    ])
+  })
+
+  test("it diffs values of different types", () => {
+    expect(diff({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { path: ["a"], before: [1], after: { 0: 1 } }
+    ])
+    expect(diff(1, 2)).toEqual([{ path: [], before: 1, after: 2 }])
+  })
+})
@@ -0,0 +1,98 @@
+import * as t from "../t"
+import { model } from "../model"
+
+class User extends model(
+  "User",
+  t.type({
+    name: t.string,
+    tags: t.array(t.string),
+    createdAt: t.DateFromISOString
+  })
+) {}
+
+const values = () => ({
+  name: "Jane",
+  tags: ["a"],
+  createdAt: new Date("2021-01-01T00:00:00.000Z")
+})
+
+describe("dirty tracking", () => {
+  test("it isn't dirty after construction and decoding", () => {
+    expect(new User(values()).isDirty()).toBe(false)
+    expect(User.from(new User(values()).encode()).isDirty()).toBe(false)
+  })
+
+  test("it tracks mutated fields", () => {
+    const user: any = new User(values())
+
+    user.name = "John"
+    user.tags.push("b")
+
+    expect(user.isDirty()).toBe(true)
+    expect(user.changedFields()).toEqual(["name", "tags"])
+    expect(user.originalValues()).toEqual(values())
+  })
+
+  test("it tracks nested values mutated in place", () => {
+    class Profile extends model(
+      "Profile",
+      t.type({ user: User, settings: t.type({ theme: t.string }) })
+    ) {}
+
+    const profile = Profile.from({
+      user: new User(values()).encode(),
+      settings: { theme: "dark" }
+    })
+
+    expect(profile.isDirty()).toBe(false)
+
+    profile.settings.theme = "light"
+    profile.user.tags.push("b")
+
+    expect(profile.changedFields()).toEqual(["settings", "user"])
+    expect(profile.originalValues().settings.theme).toEqual("dark")
+    expect(profile.originalValues().user.tags).toEqual(["a"])
+  })
+
+  test("it encodes values only once changes are queried", () => {
+    const encode = jest.fn((value: string) => value)
+    const Name = new t.Type("Name", t.string.is, t.string.validate, encode)
+
+    class Named extends model("Named", t.type({ name: Name })) {}
+
+    const named = Named.from({ name: "Jane" })
+    expect(encode).not.toHaveBeenCalled()
+
+    named.isDirty()
+    named.isDirty()
+    // The original values once, the current values on every query
+    expect(encode).toHaveBeenCalledTimes(3)
+  })
+
+  test("it tracks changes of derived instances against the original", () => {
+    const user = new User(values())
+    const updated = user.with({ createdAt: new Date("2022-01-01") })
+
+    expect(user.isDirty()).toBe(false)
+    expect(updated.isDirty()).toBe(true)
+    expect(updated.changedFields()).toEqual(["createdAt"])
+    expect(updated.originalValues()).toEqual(values())
+    expect(updated.with(values()).isDirty()).toBe(false)
+  })
+
+  test("it resets tracking", () => {
+    const user = new User(values()).with({ name: "John" })
+
+    user.markClean()
+
+    expect(user.isDirty()).toBe(false)
+    expect(user.originalValues().name).toEqual("John")
+  })
+
+  test("it treats instances with invalid values as dirty", () => {
+    const user = new User({ name: "Jane" } as any)
+
+    expect(user.isDirty()).toBe(true)
+    expect(user.changedFields()).toEqual(["name", "tags", "createdAt"])
+  })
+})
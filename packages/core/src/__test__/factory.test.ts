@@ -0,0 +1,108 @@
+import * as t from "../t"
+import { model } from "../model"
+import { defineFactory } from "../factory"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+class User extends model(
+  "User",
+  t.type({
+    name: t.string,
+    email: t.string,
+    role: t.keyof({ admin: null, member: null }),
+    active: t.boolean,
+    createdAt: t.DateFromISOString
+  })
+) {}
+
+const userFactory = defineFactory(User, {
+  defaults: {
+    name: "Jane",
+    role: "member",
+    active: true,
+    createdAt: () => new Date("2021-01-01T00:00:00.000Z")
+  },
+  sequences: { email: n => `user${n}@example.com` },
+  traits: {
+    admin: { role: "admin" },
+    inactive: { active: false, name: n => `Inactive ${n}` }
+  }
+})
+
+beforeEach(() => userFactory.reset())
+
+describe("factory", () => {
+  test("it builds instances", () => {
+    const user = userFactory.build()
+
+    expect(user).toBeInstanceOf(User)
+    expect(user.values()).toEqual({
+      name: "Jane",
+      email: "user1@example.com",
+      role: "member",
+      active: true,
+      createdAt: new Date("2021-01-01T00:00:00.000Z")
+    })
+  })
+
+  test("it increments sequences", () => {
+    expect(userFactory.buildMany(3).map(user => user.email)).toEqual([
+      "user1@example.com",
+      "user2@example.com",
+      "user3@example.com"
+    ])
+  })
+
+  test("it applies traits and overrides", () => {
+    const user = userFactory.build({ name: "John" }, "admin", "inactive")
+
+    expect(user.role).toEqual("admin")
+    expect(user.active).toBe(false)
+    expect(user.name).toEqual("John")
+    expect(userFactory.build({}, "inactive").name).toEqual("Inactive 2")
+  })
+
+  test("it validates overrides through the codec", () => {
+    expect(() => userFactory.build({ role: "owner" as any })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+
+  test("it copies static values", () => {
+    class Post extends model("Post", t.type({ tags: t.array(t.string) })) {}
+    const postFactory = defineFactory(Post, { defaults: { tags: [] } })
+
+    postFactory.build().tags.push("a")
+
+    expect(postFactory.build().tags).toEqual([])
+  })
+
+  test("it throws for unknown traits", () => {
+    expect(() =>
+      userFactory.build({}, "unknown" as any)
+    ).toThrowErrorMatchingInlineSnapshot(
+      `"Factory of model User has no trait unknown."`
+    )
+  })
+
+  test("it seeds instances", async () => {
+    const seeded: any[] = []
+    const users = await userFactory.seed(
+      { seed: async (...items) => void seeded.push(...items) },
+      2,
+      {},
+      "admin"
+    )
+
+    expect(seeded).toEqual(users)
+    expect(users.map(user => user.role)).toEqual(["admin", "admin"])
+  })
+
+  test("it types overrides and traits", () => {
+    // @ts-expect-error
+    expect(() => userFactory.build({ name: 1 })).toThrow()
+    // @ts-expect-error
+    expect(() => userFactory.build({}, "owner")).toThrow()
+
+    expect(userFactory.build().name).toEqual("Jane")
+  })
+})
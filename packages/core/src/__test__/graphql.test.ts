@@ -0,0 +1,205 @@
+import * as t from "../t"
+import { model } from "../model"
+import { nested } from "../nested"
+import { union } from "../union"
+import { resolveType, toGraphQLSDL } from "../graphql"
+
+class Author extends model(
+  "Author",
+  t.type({ name: t.NonEmptyString, joinedAt: t.DateFromISOString })
+) {}
+
+class Post extends model(
+  "Post",
+  t.intersection([
+    t.type({
+      title: t.string,
+      views: t.Int,
+      rating: t.number,
+      status: t.keyof({ DRAFT: null, PUBLISHED: null }),
+      author: nested(Author),
+      tags: t.array(t.string),
+      location: t.type({ lat: t.number, lng: t.number })
+    }),
+    t.partial({ subtitle: t.string, metadata: t.record(t.string, t.unknown) })
+  ])
+) {}
+
+class Comment extends model(
+  "Comment",
+  t.type({ body: t.string, likes: t.IntFromString })
+) {}
+
+class SearchResult extends union([Post, Comment]) {}
+
+describe("toGraphQLSDL", () => {
+  test("it generates object, union, input and connection types", () => {
+    expect(
+      toGraphQLSDL({
+        types: [SearchResult],
+        inputs: [Post],
+        connections: [Post, SearchResult]
+      })
+    ).toMatchInlineSnapshot(`
+      "scalar DateTime
+
+      scalar JSON
+
+      union SearchResult = Post | Comment
+
+      type Post {
+        title: String!
+        views: Int!
+        rating: Float!
+        status: PostStatus!
+        author: Author!
+        tags: [String!]!
+        location: PostLocation!
+        subtitle: String
+        metadata: JSON
+      }
+
+      enum PostStatus {
+        DRAFT
+        PUBLISHED
+      }
+
+      type Author {
+        name: String!
+        joinedAt: DateTime!
+      }
+
+      type PostLocation {
+        lat: Float!
+        lng: Float!
+      }
+
+      type Comment {
+        body: String!
+        likes: Int!
+      }
+
+      input PostInput {
+        title: String!
+        views: Int!
+        rating: Float!
+        status: PostStatus!
+        author: AuthorInput!
+        tags: [String!]!
+        location: PostInputLocationInput!
+        subtitle: String
+        metadata: JSON
+      }
+
+      input AuthorInput {
+        name: String!
+        joinedAt: DateTime!
+      }
+
+      input PostInputLocationInput {
+        lat: Float!
+        lng: Float!
+      }
+
+      type PageInfo {
+        hasPreviousPage: Boolean!
+        hasNextPage: Boolean!
+        startCursor: String
+        endCursor: String
+      }
+
+      type PostEdge {
+        node: Post!
+        cursor: String!
+      }
+
+      type PostConnection {
+        edges: [PostEdge!]!
+        pageInfo: PageInfo!
+      }
+
+      type SearchResultEdge {
+        node: SearchResult!
+        cursor: String!
+      }
+
+      type SearchResultConnection {
+        edges: [SearchResultEdge!]!
+        pageInfo: PageInfo!
+      }"
+    `)
+  })
+
+  test("it maps nullable fields and anonymous unions", () => {
+    class Feed extends model(
+      "Feed",
+      t.type({
+        items: t.array(t.union([nested(Post), nested(Comment)])),
+        kind: t.union([t.literal("a"), t.literal("b")]),
+        next: t.union([t.string, t.null])
+      })
+    ) {}
+
+    expect(toGraphQLSDL({ types: [Feed] })).toContain(`type Feed {
+  items: [FeedItems!]!
+  kind: FeedKind!
+  next: String
+}`)
+    expect(toGraphQLSDL({ types: [Feed] })).toContain(
+      "union FeedItems = Post | Comment"
+    )
+  })
+
+  test("it throws for types without fields", () => {
+    class Empty extends model("Empty", t.type({})) {}
+
+    expect(() => toGraphQLSDL({ types: [Empty] })).toThrow(
+      "Can't generate GraphQL type Empty without fields."
+    )
+  })
+
+  test("it throws for different types with the same name", () => {
+    class Other extends model("Other", t.type({ other: t.string })) {}
+
+    expect(() =>
+      toGraphQLSDL({
+        types: [union([Post, Comment]), union([Author, Other])]
+      })
+    ).toThrow(
+      "Can't generate GraphQL type Union for different types, e.g. unnamed unions. Name unions by extending them."
+    )
+    expect(() =>
+      toGraphQLSDL({ types: [SearchResult, SearchResult, Post] })
+    ).not.toThrow()
+  })
+
+  test("it resolves recursive codecs", () => {
+    interface Tree {
+      label: string
+      children: Tree[]
+    }
+
+    const Tree: t.Type<Tree> = t.recursion("Tree", () =>
+      t.type({ label: t.string, children: t.array(Tree) })
+    )
+
+    class Category extends model("Category", t.type({ tree: Tree })) {}
+
+    expect(toGraphQLSDL({ types: [Category] })).toEqual(`type Category {
+  tree: Tree!
+}
+
+type Tree {
+  label: String!
+  children: [Tree!]!
+}`)
+  })
+})
+
+describe("resolveType", () => {
+  test("it resolves the type name from `_tag`", () => {
+    expect(
+      resolveType(SearchResult.from({ _tag: "Comment", body: "", likes: "1" }))
+    ).toEqual("Comment")
+  })
+})
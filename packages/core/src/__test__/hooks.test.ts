@@ -0,0 +1,156 @@
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { mergeProviders } from "../utils"
+import { Provider } from "../provider"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+const codec = t.intersection([
+  t.type({ name: t.string }),
+  t.partial({ createdAt: t.DateFromISOString })
+])
+
+describe("hooks", () => {
+  test("it calls onConstruct for new and decoded instances", () => {
+    const onConstruct = jest.fn((instance: any) => {
+      if (!instance.createdAt) instance.createdAt = new Date(0)
+    })
+
+    class User extends model("User", codec, { hooks: { onConstruct } }) {}
+
+    const created = new User({ name: "Jane" })
+    const decoded = User.from({ name: "John" })
+
+    expect(onConstruct).toHaveBeenCalledWith(created, User)
+    expect(onConstruct).toHaveBeenCalledWith(decoded, User)
+    expect(decoded.createdAt).toEqual(new Date(0))
+    // Fields set by the hook are part of the original values
+    expect(created.isDirty()).toBe(false)
+  })
+
+  test("it passes decoded instances through afterDecode", () => {
+    class User extends model("User", codec, {
+      hooks: {
+        afterDecode: (instance: any) =>
+          Object.assign(instance, { name: instance.name.trim() })
+      }
+    }) {}
+    class Other extends model("Other", t.type({ other: t.string })) {}
+    class Member extends union([User, Other]) {}
+
+    expect(User.from({ name: " Jane " }).name).toEqual("Jane")
+    expect((Member.from({ name: " Jane " }) as User).name).toEqual("Jane")
+    // Constructing instances directly doesn't decode them
+    expect(new User({ name: " Jane " }).name).toEqual(" Jane ")
+  })
+
+  test("it tracks and freezes instances after afterDecode", () => {
+    const afterDecode = (instance: any) =>
+      Object.assign(instance, { name: instance.name.trim() })
+
+    class User extends model("User", codec, { hooks: { afterDecode } }) {}
+    class Frozen extends model(
+      "Frozen",
+      codec,
+      { hooks: { afterDecode } },
+      { freeze: true }
+    ) {}
+
+    const user = User.from({ name: " Jane " })
+
+    expect(user.isDirty()).toBe(false)
+    expect(user.changedFields()).toEqual([])
+    expect(user.originalValues()).toEqual({ name: "Jane" })
+
+    const frozen = Frozen.from({ name: " Jane " })
+
+    expect(frozen.name).toEqual("Jane")
+    expect(frozen.isDirty()).toBe(false)
+    expect(() => ((frozen as any).name = "John")).toThrow(TypeError)
+  })
+
+  test("it calls beforeEncode and afterEncode", () => {
+    class User extends model("User", codec, {
+      hooks: {
+        beforeEncode: (instance: any) => ({
+          ...instance,
+          createdAt: instance.createdAt ?? new Date(0)
+        }),
+        afterEncode: (encoded: any, model) => ({
+          ...encoded,
+          encodedBy: model._tag
+        })
+      }
+    }) {}
+
+    expect(new User({ name: "Jane" }).encode()).toEqual({
+      _tag: "User",
+      name: "Jane",
+      createdAt: "1970-01-01T00:00:00.000Z",
+      encodedBy: "User"
+    })
+  })
+
+  test("it calls onValidationError when decoding fails", () => {
+    const onValidationError = jest.fn()
+    const provider: Provider = { hooks: { onValidationError } }
+
+    class User extends model("User", codec, provider) {}
+    class Other extends model("Other", t.type({ other: t.string }), provider) {}
+    class Member extends union([User, Other], provider) {}
+
+    // Failing members of a decoded union aren't reported
+    Member.from({ other: "other" })
+    expect(onValidationError).not.toHaveBeenCalled()
+
+    expect(() => User.from({ name: 1 })).toThrow(RuntimeTypeValidationError)
+    expect(onValidationError).toHaveBeenLastCalledWith(
+      [expect.objectContaining({ value: 1 })],
+      { name: 1 },
+      User
+    )
+
+    Member.decode(null)
+    expect(onValidationError).toHaveBeenLastCalledWith(
+      expect.any(Array),
+      null,
+      Member
+    )
+    expect(onValidationError).toHaveBeenCalledTimes(2)
+  })
+
+  test("mergeProviders composes hooks in order", () => {
+    const calls: string[] = []
+
+    class User extends model(
+      "User",
+      codec,
+      mergeProviders([
+        {
+          classProps: { foo: 42 },
+          hooks: {
+            onConstruct: () => calls.push("first"),
+            afterEncode: (encoded: any) => ({ ...encoded, name: "a" })
+          }
+        },
+        {
+          instanceProps: { bar: 43 },
+          hooks: {
+            onConstruct: () => calls.push("second"),
+            afterEncode: (encoded: any) => ({
+              ...encoded,
+              name: encoded.name + "b"
+            })
+          }
+        }
+      ])
+    ) {}
+
+    const user = new User({ name: "Jane" })
+
+    expect(calls).toEqual(["first", "second"])
+    expect(user.encode().name).toEqual("ab")
+    expect(User.foo).toEqual(42)
+    expect(user.bar).toEqual(43)
+  })
+})
@@ -0,0 +1,141 @@
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+describe("invariants", () => {
+  class Booking extends model(
+    "Booking",
+    t.type({ startDate: t.DateFromISOString, endDate: t.DateFromISOString }),
+    {
+      invariants: [
+        {
+          check: ({ startDate, endDate }) => endDate > startDate,
+          message: "endDate must be after startDate",
+          path: ["endDate"]
+        }
+      ]
+    }
+  ) {}
+
+  class Contact extends model(
+    "Contact",
+    t.partial({ email: t.string, phone: t.string }),
+    {
+      strict: true,
+      invariants: [
+        {
+          check: ({ email, phone }) => !!(email || phone),
+          message: "Either email or phone is required"
+        }
+      ]
+    }
+  ) {}
+
+  test("it decodes values satisfying the invariants", () => {
+    const booking = Booking.from({
+      startDate: "2021-01-01T00:00:00.000Z",
+      endDate: "2021-01-02T00:00:00.000Z"
+    })
+
+    expect(booking).toBeInstanceOf(Booking)
+  })
+
+  test("it reports violations as structured validation errors", () => {
+    let error: RuntimeTypeValidationError | undefined
+    try {
+      Booking.from({
+        startDate: "2021-01-02T00:00:00.000Z",
+        endDate: "2021-01-01T00:00:00.000Z"
+      })
+    } catch (e) {
+      error = e as RuntimeTypeValidationError
+    }
+
+    expect(error).toBeInstanceOf(RuntimeTypeValidationError)
+    expect(error?.issues).toEqual([
+      {
+        path: ["endDate"],
+        expected: "DateFromISOString",
+        actual: new Date("2021-01-01T00:00:00.000Z"),
+        message: "endDate must be after startDate"
+      }
+    ])
+  })
+
+  test("it reports violations of the root value", () => {
+    expect(() => Contact.from({})).toThrowErrorMatchingInlineSnapshot(
+      `"Expecting Partial<{| email: string, phone: string |}> but instead got: {} (Either email or phone is required)"`
+    )
+  })
+
+  test("it returns violations from decode", () => {
+    const decoded = Booking.decode({
+      startDate: "2021-01-02T00:00:00.000Z",
+      endDate: "2021-01-01T00:00:00.000Z"
+    })
+
+    expect(decoded._tag).toEqual("Left")
+  })
+
+  test("it reports exceptions of checks as violations", () => {
+    class Event extends model("Event", t.type({ tags: t.array(t.string) }), {
+      invariants: [
+        {
+          check: ({ tags }) => {
+            if (!tags.length) throw new Error("No tags")
+            return true
+          },
+          message: "tags must be valid",
+          path: ["tags"]
+        }
+      ]
+    }) {}
+
+    expect(Event.decode({ tags: [] })._tag).toEqual("Left")
+    expect(() => Event.from({ tags: [] })).toThrowErrorMatchingInlineSnapshot(
+      `"Expecting Array<string> at tags but instead got: [] (Invariant "tags must be valid" failed: No tags)"`
+    )
+  })
+
+  test("it checks invariants on construction in strict mode", () => {
+    expect(() => new Contact({})).toThrow(RuntimeTypeValidationError)
+    expect(new Contact({ phone: "+1" }).phone).toEqual("+1")
+
+    // Non-strict models don't check invariants on construction
+    expect(
+      () =>
+        new Booking({
+          startDate: new Date("2021-01-02T00:00:00.000Z"),
+          endDate: new Date("2021-01-01T00:00:00.000Z")
+        })
+    ).not.toThrow()
+  })
+
+  test("it checks invariants of updated instances", () => {
+    const contact = new Contact({ email: "jane@example.com" })
+
+    expect(() => contact.with({ email: undefined })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+
+  test("it asserts invariants", () => {
+    expect(() =>
+      Booking.assertInvariants({
+        startDate: new Date("2021-01-02T00:00:00.000Z"),
+        endDate: new Date("2021-01-01T00:00:00.000Z")
+      })
+    ).toThrow(RuntimeTypeValidationError)
+  })
+
+  test("it checks invariants of union members", () => {
+    class Other extends model("Other", t.type({ other: t.string })) {}
+    class ContactOrOther extends union([Contact, Other]) {}
+
+    expect(() => ContactOrOther.from({})).toThrow(RuntimeTypeValidationError)
+    expect(ContactOrOther.from({ email: "jane@example.com" })).toBeInstanceOf(
+      Contact
+    )
+  })
+})
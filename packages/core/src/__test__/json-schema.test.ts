@@ -0,0 +1,266 @@
+import * as t from "../t"
+import { model } from "../model"
+import { nested } from "../nested"
+import { union } from "../union"
+import { toJSONSchema } from "../json-schema"
+
+describe("models", () => {
+  class Address extends model(
+    "Address",
+    t.type({ street: t.string, zip: t.string })
+  ) {}
+
+  class User extends model(
+    "User",
+    t.intersection([
+      t.type({
+        id: t.NonEmptyString,
+        age: t.Int,
+        role: t.keyof({ admin: null, member: null }),
+        status: t.union([t.literal("active"), t.literal("disabled")]),
+        createdAt: t.DateFromISOString,
+        balance: t.NumberFromString,
+        tags: t.readonlyArray(t.string),
+        emails: t.nonEmptyArray(t.string),
+        flags: t.record(t.string, t.boolean),
+        address: nested(Address),
+        nickname: t.union([t.string, t.undefined])
+      }),
+      t.partial({ bio: t.union([t.string, t.null]) })
+    ])
+  ) {}
+
+  test("it generates a schema including the `_tag` discriminator", () => {
+    expect(toJSONSchema(User)).toMatchInlineSnapshot(`
+      {
+        "$defs": {
+          "Address": {
+            "additionalProperties": false,
+            "properties": {
+              "_tag": {
+                "const": "Address",
+              },
+              "street": {
+                "type": "string",
+              },
+              "zip": {
+                "type": "string",
+              },
+            },
+            "required": [
+              "_tag",
+              "street",
+              "zip",
+            ],
+            "type": "object",
+          },
+          "User": {
+            "additionalProperties": false,
+            "properties": {
+              "_tag": {
+                "const": "User",
+              },
+              "address": {
+                "$ref": "#/$defs/Address",
+              },
+              "age": {
+                "type": "integer",
+              },
+              "balance": {
+                "format": "number",
+                "type": "string",
+              },
+              "bio": {
+                "anyOf": [
+                  {
+                    "type": "string",
+                  },
+                  {
+                    "type": "null",
+                  },
+                ],
+              },
+              "createdAt": {
+                "format": "date-time",
+                "type": "string",
+              },
+              "emails": {
+                "items": {
+                  "type": "string",
+                },
+                "minItems": 1,
+                "type": "array",
+              },
+              "flags": {
+                "additionalProperties": {
+                  "type": "boolean",
+                },
+                "type": "object",
+              },
+              "id": {
+                "minLength": 1,
+                "type": "string",
+              },
+              "nickname": {
+                "type": "string",
+              },
+              "role": {
+                "enum": [
+                  "admin",
+                  "member",
+                ],
+                "type": "string",
+              },
+              "status": {
+                "enum": [
+                  "active",
+                  "disabled",
+                ],
+              },
+              "tags": {
+                "items": {
+                  "type": "string",
+                },
+                "type": "array",
+              },
+            },
+            "required": [
+              "_tag",
+              "id",
+              "age",
+              "role",
+              "status",
+              "createdAt",
+              "balance",
+              "tags",
+              "emails",
+              "flags",
+              "address",
+            ],
+            "type": "object",
+          },
+        },
+        "$ref": "#/$defs/User",
+        "$schema": "https://json-schema.org/draft/2020-12/schema",
+      }
+    `)
+  })
+
+  test("it includes the version of versioned models", () => {
+    class Versioned extends model("Versioned", t.type({ a: t.string }), {
+      version: 2,
+      migrations: [value => value]
+    }) {}
+
+    expect(toJSONSchema(Versioned).$defs?.Versioned).toEqual({
+      type: "object",
+      properties: {
+        _tag: { const: "Versioned" },
+        _version: { const: 2 },
+        a: { type: "string" }
+      },
+      required: ["_tag", "_version", "a"],
+      additionalProperties: false
+    })
+  })
+
+  test("it resolves recursive models", () => {
+    class Node extends model(
+      "Node",
+      t.type({
+        children: t.array(t.recursion("Node", (): t.Mixed => Node))
+      })
+    ) {}
+
+    expect(toJSONSchema(Node).$defs?.Node.properties?.children).toEqual({
+      type: "array",
+      items: { $ref: "#/$defs/Node" }
+    })
+  })
+
+  test("it resolves recursive codecs", () => {
+    interface Tree {
+      label: string
+      children: Tree[]
+    }
+
+    const Tree: t.Type<Tree> = t.recursion("Tree", () =>
+      t.type({ label: t.string, children: t.array(Tree) })
+    )
+
+    class Category extends model("Category", t.type({ tree: Tree })) {}
+
+    const schema = toJSONSchema(Category)
+    expect(schema.$defs?.Category.properties?.tree).toEqual({
+      $ref: "#/$defs/Tree"
+    })
+    expect(schema.$defs?.Tree).toEqual({
+      type: "object",
+      properties: {
+        label: { type: "string" },
+        children: { type: "array", items: { $ref: "#/$defs/Tree" } }
+      },
+      required: ["label", "children"]
+    })
+  })
+})
+
+describe("unions", () => {
+  class A extends model("A", t.type({ a: t.string })) {}
+  class B extends model("B", t.type({ b: t.number })) {}
+  class Union extends union([A, B]) {}
+
+  test("it generates a `oneOf` of the member models", () => {
+    const schema = toJSONSchema(Union)
+
+    expect(schema.oneOf).toEqual([{ $ref: "#/$defs/A" }, { $ref: "#/$defs/B" }])
+    expect(Object.keys(schema.$defs ?? {})).toEqual(["A", "B"])
+    expect(schema.$defs?.B.properties?._tag).toEqual({ const: "B" })
+  })
+
+  test("it supports unions nested in models", () => {
+    class C extends model("C", t.type({ member: Union })) {}
+
+    expect(toJSONSchema(C).$defs?.C.properties?.member).toEqual({
+      oneOf: [{ $ref: "#/$defs/A" }, { $ref: "#/$defs/B" }]
+    })
+  })
+})
+
+describe("codecs", () => {
+  test("it generates schemas for plain codecs", () => {
+    expect(
+      toJSONSchema(
+        t.exact(
+          t.type({
+            tuple: t.tuple([t.string, t.number]),
+            record: t.record(t.keyof({ a: null, b: null }), t.number),
+            date: t.DateFromUnixTime,
+            unknown: t.unknown
+          })
+        )
+      )
+    ).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        tuple: {
+          type: "array",
+          prefixItems: [{ type: "string" }, { type: "number" }],
+          items: false,
+          minItems: 2,
+          maxItems: 2
+        },
+        record: {
+          type: "object",
+          properties: { a: { type: "number" }, b: { type: "number" } },
+          required: ["a", "b"]
+        },
+        date: { type: "integer", format: "unix-time" },
+        unknown: {}
+      },
+      required: ["tuple", "record", "date"],
+      additionalProperties: false
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { mergeProviders } from "../utils"
+import {
+  ProviderConflictError,
+  middleware,
+  namespaceProvider
+} from "../provider"
+
+const codec = t.type({ id: t.string })
+
+const store = {
+  classProps: {
+    get<M extends { _tag: string }>(this: M, id: string) {
+      return `store:${this._tag}:${id}`
+    }
+  },
+  instanceProps: {
+    put<T extends { id: string }>(this: T) {
+      return `store:${this.id}`
+    }
+  },
+  unionProps: {
+    get(id: string) {
+      return `store:${id}`
+    }
+  }
+}
+
+const cache = {
+  classProps: {
+    get<M extends { _tag: string }>(this: M, id: string) {
+      return `cache:${this._tag}:${id}`
+    }
+  },
+  instanceProps: {
+    put<T extends { id: string }>(this: T) {
+      return `cache:${this.id}`
+    }
+  }
+}
+
+describe("mergeProviders", () => {
+  test("it keeps the props of the last provider by default", () => {
+    class User extends model("User", codec, mergeProviders([store, cache])) {}
+
+    expect(User.get("1")).toEqual("cache:User:1")
+    expect(new User({ id: "1" }).put()).toEqual("cache:1")
+  })
+
+  test("it throws on conflicting props if requested", () => {
+    expect(() =>
+      // @ts-expect-error
+      mergeProviders([store, cache], { precedence: "error" })
+    ).toThrow(
+      new ProviderConflictError(["classProps.get", "instanceProps.put"])
+    )
+  })
+
+  test("it resolves conflicts by precedence", () => {
+    class First extends model(
+      "First",
+      codec,
+      mergeProviders([store, cache], { precedence: "first" })
+    ) {}
+    class Last extends model(
+      "Last",
+      codec,
+      mergeProviders([store, cache], { precedence: "last" })
+    ) {}
+
+    expect(First.get("1")).toEqual("store:First:1")
+    expect(new First({ id: "1" }).put()).toEqual("store:1")
+    expect(Last.get("1")).toEqual("cache:Last:1")
+    expect(new Last({ id: "1" }).put()).toEqual("cache:1")
+  })
+
+  test("it namespaces providers", () => {
+    class User extends model(
+      "User",
+      codec,
+      mergeProviders([store, namespaceProvider("cache", cache)], {
+        precedence: "error"
+      })
+    ) {}
+    class Other extends model("Other", t.type({ other: t.string })) {}
+    class Member extends union(
+      [User, Other],
+      mergeProviders([
+        namespaceProvider("store", store),
+        namespaceProvider("cache", cache)
+      ])
+    ) {}
+
+    const user = new User({ id: "1" })
+
+    expect(user.put()).toEqual("store:1")
+    expect(user.cache.put()).toEqual("cache:1")
+    expect(User.get("1")).toEqual("store:User:1")
+    expect(User.cache.get("1")).toEqual("cache:User:1")
+    expect(Member.store.get("1")).toEqual("store:1")
+    // Namespaces aren't enumerable fields of instances
+    expect(user.values()).toEqual({ id: "1" })
+  })
+
+  test("it wraps preceding methods via middleware", () => {
+    const calls: string[] = []
+
+    class User extends model(
+      "User",
+      codec,
+      mergeProviders([
+        store,
+        {
+          instanceProps: {
+            put: middleware(function (this: { id: string }, next) {
+              calls.push(`before:${this.id}`)
+              return `${next()}!`
+            })
+          }
+        }
+      ])
+    ) {}
+
+    expect(new User({ id: "1" }).put()).toEqual("store:1!")
+    expect(calls).toEqual(["before:1"])
+  })
+
+  test("it throws for middleware without a preceding method", () => {
+    expect(() =>
+      mergeProviders([
+        cache,
+        { instanceProps: { publish: middleware(next => next()) } }
+      ])
+    ).toThrow("Middleware instanceProps.publish has no preceding method")
+  })
+
+  test("it keeps getters of merged props", () => {
+    class User extends model(
+      "User",
+      codec,
+      mergeProviders([
+        {
+          classProps: {
+            get tableName(): string {
+              return (this as any)._tag.toLowerCase()
+            }
+          }
+        },
+        store
+      ])
+    ) {}
+
+    expect(User.tableName).toEqual("user")
+  })
+})
@@ -0,0 +1,137 @@
+import * as t from "io-ts"
+import { isLeft, isRight } from "fp-ts/lib/Either"
+import { model } from "../model"
+import { union } from "../union"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+const CODEC = t.type({ name: t.string, color: t.string })
+
+class Tag extends model("Tag", CODEC, {
+  version: 3,
+  migrations: [
+    // v1 -> v2: `label` was renamed to `name`
+    ({ label, ...rest }) => ({ ...rest, name: label }),
+    // v2 -> v3: `color` was added
+    value => ({ color: "gray", ...value })
+  ]
+}) {}
+
+describe("versioned models", () => {
+  test("it exposes the current version", () => {
+    expect(Tag._version).toEqual(3)
+  })
+
+  test("it stamps the version when encoding", () => {
+    expect(new Tag({ name: "urgent", color: "red" }).encode()).toEqual({
+      _tag: "Tag",
+      _version: 3,
+      name: "urgent",
+      color: "red"
+    })
+  })
+
+  test("it upgrades values without a version from version 1", () => {
+    const decoded = Tag.from({ label: "urgent" })
+    expect(decoded).toBeInstanceOf(Tag)
+    expect(decoded.values()).toEqual({ name: "urgent", color: "gray" })
+  })
+
+  test("it upgrades values from intermediate versions", () => {
+    expect(Tag.from({ _version: 2, name: "urgent" }).values()).toEqual({
+      name: "urgent",
+      color: "gray"
+    })
+  })
+
+  test("it doesn't migrate values at the current version", () => {
+    expect(
+      Tag.from({ _version: 3, name: "urgent", color: "red" }).values()
+    ).toEqual({ name: "urgent", color: "red" })
+  })
+
+  test("it round-trips encoded values", () => {
+    const tag = new Tag({ name: "urgent", color: "red" })
+    expect(Tag.from(tag.encode()).values()).toEqual(tag.values())
+  })
+
+  test("it rejects unsupported versions", () => {
+    expect(() =>
+      Tag.from({ _version: 4, name: "urgent", color: "red" })
+    ).toThrow(RuntimeTypeValidationError)
+    expect(() => Tag.from({ _version: "2", name: "urgent" })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+
+  test("it reports failing migrations as validation errors", () => {
+    class Failing extends model("Failing", CODEC, {
+      version: 2,
+      migrations: [
+        () => {
+          throw new Error("boom")
+        }
+      ]
+    }) {}
+
+    const result = Failing.decode({ name: "a", color: "b" })
+    expect(isLeft(result)).toBe(true)
+    expect(() => Failing.from({ name: "a", color: "b" })).toThrow(
+      "Migration from version 1 to 2 failed: boom"
+    )
+  })
+
+  test("it upgrades values when used as an io-ts codec", () => {
+    const result = t.type({ tag: Tag }).decode({ tag: { label: "urgent" } })
+    expect(isRight(result) && result.right.tag.values()).toEqual({
+      name: "urgent",
+      color: "gray"
+    })
+  })
+
+  test("it throws if the migration chain doesn't match the version", () => {
+    expect(() =>
+      model("Invalid", CODEC, { version: 3, migrations: [] })
+    ).toThrow(
+      "Model Invalid is at version 3 and requires 2 migration(s), received 0."
+    )
+    expect(() => model("Invalid", CODEC, { version: 0 })).toThrow(Error)
+  })
+
+  test("it supports providers", () => {
+    const PROVIDER = { instanceProps: { greet: () => "hello" } }
+
+    class WithProvider extends model("WithProvider", CODEC, PROVIDER, {
+      version: 2,
+      migrations: [value => ({ color: "gray", ...value })]
+    }) {}
+
+    const decoded = WithProvider.from({ name: "a" })
+    expect(decoded.greet()).toEqual("hello")
+    expect(decoded.encode()).toEqual({
+      _tag: "WithProvider",
+      _version: 2,
+      name: "a",
+      color: "gray"
+    })
+  })
+})
+
+describe("versioned models in unions", () => {
+  class Other extends model("Other", t.type({ other: t.number })) {}
+  class Union extends union([Other, Tag]) {}
+
+  test("it picks the member by `_tag` and upgrades the value", () => {
+    const decoded = Union.from({ _tag: "Tag", label: "urgent" })
+    expect(decoded).toBeInstanceOf(Tag)
+    expect((decoded as Tag).values()).toEqual({ name: "urgent", color: "gray" })
+  })
+
+  test("it upgrades values without `_tag`", () => {
+    expect(Union.from({ label: "urgent" })).toBeInstanceOf(Tag)
+  })
+
+  test("it upgrades values when validating", () => {
+    const result = Union.decode({ _tag: "Tag", _version: 2, name: "urgent" })
+    expect(isRight(result) && result.right).toBeInstanceOf(Tag)
+  })
+})
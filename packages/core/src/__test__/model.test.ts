@@ -106,6 +106,16 @@ describe("with provider", () => {
     expect(MyModel.doubleConstValue).toEqual(84)
   })
 
+  test("it shares methods and instance props via the prototype", () => {
+    const a = new MyModel({ foo: 1 })
+    const b = new MyModel({ foo: 2 })
+
+    expect(a.encode).toBe(b.encode)
+    expect(a.getFooString).toBe(b.getFooString)
+    expect(Object.keys(a)).toEqual(["foo", "_tag", "_codec"])
+    expect(b.getFooString()).toEqual("2")
+  })
+
   describe("from", () => {
     test("it decodes a valid value and injects instance props", () => {
       const decoded = MyModel.from({ foo: 42, bar: "omitted" })
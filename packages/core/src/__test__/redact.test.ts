@@ -0,0 +1,176 @@
+import { inspect } from "util"
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { REDACTED, redact } from "../redact"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+class Credentials extends model(
+  "Credentials",
+  t.type({ username: t.string, password: t.sensitive(t.string) })
+) {}
+
+class User extends model(
+  "User",
+  t.intersection([
+    t.type({
+      email: t.string,
+      token: t.sensitive(t.string),
+      credentials: Credentials,
+      apiKeys: t.array(t.sensitive(t.string))
+    }),
+    t.partial({ ssn: t.sensitive(t.NonEmptyString) })
+  ])
+) {}
+
+const user = new User({
+  email: "jane@example.com",
+  token: "secret-token",
+  credentials: new Credentials({ username: "jane", password: "hunter2" }),
+  apiKeys: ["key-1"]
+})
+
+const getError = (fn: () => unknown) => {
+  try {
+    fn()
+  } catch (error) {
+    return error as RuntimeTypeValidationError
+  }
+
+  throw new Error("Expected function to throw")
+}
+
+describe("sensitive", () => {
+  test("it keeps the behavior of the codec", () => {
+    const codec = t.sensitive(t.DateFromISOString)
+
+    expect(codec.name).toEqual("DateFromISOString")
+    expect(codec.encode(new Date(0))).toEqual("1970-01-01T00:00:00.000Z")
+    expect(t.isSensitive(codec)).toBe(true)
+    expect(t.isSensitive(t.DateFromISOString)).toBe(false)
+  })
+
+  test("it masks sensitive fields in toJSON", () => {
+    expect(JSON.parse(JSON.stringify(user))).toEqual({
+      _tag: "User",
+      email: "jane@example.com",
+      token: REDACTED,
+      credentials: {
+        _tag: "Credentials",
+        username: "jane",
+        password: REDACTED
+      },
+      apiKeys: [REDACTED]
+    })
+  })
+
+  test("it masks sensitive fields in inspect output", () => {
+    const output = inspect(user)
+
+    expect(output).not.toContain("secret-token")
+    expect(output).not.toContain("hunter2")
+    expect(output).toContain("jane@example.com")
+  })
+
+  test("it keeps sensitive values in encode", () => {
+    expect(user.encode()).toMatchObject({
+      token: "secret-token",
+      credentials: { password: "hunter2" },
+      apiKeys: ["key-1"]
+    })
+    expect(user.values().token).toEqual("secret-token")
+  })
+
+  test("it masks sensitive values in validation errors", () => {
+    const error = getError(() =>
+      User.from({ ...user.encode(), token: 42, ssn: "", apiKeys: [1] })
+    )
+
+    expect(error.message).not.toContain("42")
+    expect(error.issues.map(({ path, actual }) => ({ path, actual }))).toEqual([
+      { path: ["token"], actual: REDACTED },
+      { path: ["apiKeys", 0], actual: REDACTED },
+      { path: ["ssn"], actual: REDACTED }
+    ])
+  })
+
+  test("it masks sensitive values in the context of errors", () => {
+    const encoded = user.encode()
+    const error = getError(() =>
+      User.from({
+        ...encoded,
+        credentials: { ...encoded.credentials, username: 1 }
+      })
+    )
+    const actuals = JSON.stringify(
+      error.errors.flatMap(({ context }) => context.map(({ actual }) => actual))
+    )
+
+    expect(error.issues[0].path).toEqual(["credentials", "username"])
+    expect(actuals).toContain("jane@example.com")
+    expect(actuals).not.toContain("secret-token")
+    expect(actuals).not.toContain("hunter2")
+    expect(actuals).not.toContain("key-1")
+  })
+
+  test("it masks sensitive fields of values reported as a whole", () => {
+    const error = getError(() =>
+      model(
+        "Login",
+        t.type({ username: t.string, password: t.sensitive(t.string) }),
+        { invariants: [{ check: () => false, message: "Invalid login" }] }
+      ).from({ username: "jane", password: "hunter2" })
+    )
+
+    expect(error.issues[0].actual).toEqual({
+      username: "jane",
+      password: REDACTED
+    })
+    expect(error.message).not.toContain("hunter2")
+  })
+
+  test("it masks sensitive values in union errors", () => {
+    class Other extends model("Other", t.type({ other: t.string })) {}
+    class CredentialsOrOther extends union([Credentials, Other]) {}
+
+    const error = getError(() =>
+      CredentialsOrOther.from({ _tag: "Credentials", password: "hunter2" })
+    )
+
+    expect(error.message).not.toContain("hunter2")
+    expect(JSON.stringify(error.toJSON())).not.toContain("hunter2")
+  })
+})
+
+describe("redact", () => {
+  test("it redacts encoded values", () => {
+    expect(redact(User, user.encode())).toEqual({
+      _tag: "User",
+      email: "jane@example.com",
+      token: REDACTED,
+      credentials: {
+        _tag: "Credentials",
+        username: "jane",
+        password: REDACTED
+      },
+      apiKeys: [REDACTED]
+    })
+  })
+
+  test("it redacts records, tuples and unions", () => {
+    const codec = t.type({
+      secrets: t.record(t.string, t.sensitive(t.string)),
+      pair: t.tuple([t.string, t.sensitive(t.number)]),
+      value: t.union([t.sensitive(t.string), t.number])
+    })
+
+    expect(
+      redact(codec, { secrets: { a: "a" }, pair: ["b", 1], value: "c" })
+    ).toEqual({
+      secrets: { a: REDACTED },
+      pair: ["b", REDACTED],
+      value: REDACTED
+    })
+    expect(redact(codec, { value: 1 })).toEqual({ value: 1 })
+  })
+})
@@ -0,0 +1,80 @@
+import * as t from "../t"
+import { model } from "../model"
+import { Registry, isRegistry } from "../registry"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+describe("Registry", () => {
+  const registry = new Registry()
+
+  @registry.register
+  class A extends model("A", t.type({ a: t.string })) {
+    get upper() {
+      return this.a.toUpperCase()
+    }
+  }
+
+  class B extends model("B", t.type({ b: t.number })) {}
+  registry.register(B)
+
+  test("it looks up models by tag", () => {
+    expect(registry.get("A")).toBe(A)
+    expect(registry.get("B")).toBe(B)
+    expect(registry.get("C")).toBeUndefined()
+    expect(registry.has("A")).toBe(true)
+    expect(registry.has("C")).toBe(false)
+    expect(registry.models).toEqual([A, B])
+  })
+
+  test("it detects registries by their brand", () => {
+    expect(isRegistry(registry)).toBe(true)
+    expect(isRegistry(Object.create(Registry.prototype))).toBe(false)
+    expect(isRegistry({ [Symbol.for("@model-ts/core/registry")]: true })).toBe(
+      true
+    )
+    expect(isRegistry({})).toBe(false)
+    expect(isRegistry(null)).toBe(false)
+  })
+
+  test("it decodes values by `_tag`", () => {
+    const a = registry.decode({ _tag: "A", a: "a" })
+
+    expect(a).toBeInstanceOf(A)
+    expect((a as A).upper).toEqual("A")
+    expect(registry.decode({ _tag: "B", b: 42 })).toBeInstanceOf(B)
+  })
+
+  test("it throws if a value can't be decoded", () => {
+    expect(() => registry.decode({ a: "a" })).toThrow(
+      "Couldn't decode value without `_tag`."
+    )
+    expect(() => registry.decode(null)).toThrow(RuntimeTypeValidationError)
+    expect(() => registry.decode({ _tag: "C" })).toThrow(
+      "Couldn't decode value, no model registered for tag C."
+    )
+    expect(() => registry.decode({ _tag: "A", a: 42 })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+
+  test("it checks whether a value is an instance of a registered model", () => {
+    class C extends model("C", t.type({ c: t.string })) {}
+
+    expect(registry.is(new A({ a: "a" }))).toBe(true)
+    expect(registry.is(new C({ c: "c" }))).toBe(false)
+    expect(registry.is({ _tag: "A", a: "a" })).toBe(false)
+  })
+
+  test("it throws on duplicate tags", () => {
+    class OtherA extends model("A", t.type({ x: t.string })) {}
+
+    expect(() => registry.register(OtherA)).toThrowErrorMatchingInlineSnapshot(
+      `"Can't register model OtherA, tag A is already used by model A."`
+    )
+    expect(registry.get("A")).toBe(A)
+  })
+
+  test("it ignores repeated registrations of the same model", () => {
+    expect(registry.register(A)).toBe(A)
+    expect(registry.models).toEqual([A, B])
+  })
+})
@@ -0,0 +1,172 @@
+import * as t from "../t"
+import { model } from "../model"
+import { nested } from "../nested"
+import { union } from "../union"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+class Address extends model(
+  "Address",
+  t.type({ street: t.string, lines: t.array(t.string) })
+) {}
+
+class User extends model(
+  "User",
+  t.intersection([
+    t.type({
+      name: t.withMessage(t.string, () => "Name is required"),
+      age: t.withValidation(t.number, age => age >= 0, "Age must be positive"),
+      address: nested(Address)
+    }),
+    t.partial({ role: t.union([t.literal("admin"), t.literal("user")]) })
+  ])
+) {}
+
+const catchError = (fn: () => unknown) => {
+  try {
+    fn()
+  } catch (error) {
+    return error as RuntimeTypeValidationError
+  }
+  throw new Error("Expected an error to be thrown.")
+}
+
+describe("issues", () => {
+  test("it exposes structured issues with field paths", () => {
+    const error = catchError(() =>
+      User.from({
+        age: -1,
+        address: { street: 42, lines: ["a", null] },
+        role: "owner"
+      })
+    )
+
+    expect(error).toBeInstanceOf(RuntimeTypeValidationError)
+    expect(error.issues).toEqual([
+      {
+        path: ["name"],
+        expected: "string",
+        actual: undefined,
+        message: "Name is required"
+      },
+      {
+        path: ["age"],
+        expected: "withValidation(number)",
+        actual: -1,
+        message: "Age must be positive"
+      },
+      {
+        path: ["address", "street"],
+        expected: "string",
+        actual: 42,
+        message: "Expecting string at address.street but instead got: 42"
+      },
+      {
+        path: ["address", "lines", 1],
+        expected: "string",
+        actual: null,
+        message: "Expecting string at address.lines.1 but instead got: null"
+      },
+      {
+        path: ["role"],
+        expected: '"admin"',
+        actual: "owner",
+        message: 'Expecting "admin" at role but instead got: "owner"'
+      },
+      {
+        path: ["role"],
+        expected: '"user"',
+        actual: "owner",
+        message: 'Expecting "user" at role but instead got: "owner"'
+      }
+    ])
+  })
+
+  test("it reports issues of the root value with an empty path", () => {
+    expect(catchError(() => Address.from(null)).issues).toEqual([
+      {
+        path: [],
+        expected: "{| street: string, lines: Array<string> |}",
+        actual: null,
+        message:
+          "Expecting {| street: string, lines: Array<string> |} but instead got: null"
+      }
+    ])
+  })
+
+  test("it serializes to JSON", () => {
+    const error = catchError(() => Address.from({ street: "Main" }))
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: "RuntimeTypeValidationError",
+      message: error.message,
+      issues: [
+        {
+          path: ["lines"],
+          expected: "Array<string>",
+          message: "Expecting Array<string> at lines but instead got: undefined"
+        }
+      ]
+    })
+  })
+})
+
+describe("union", () => {
+  class A extends model("A", t.type({ a: t.string })) {}
+  class B extends model("B", t.type({ b: t.number })) {}
+  class AOrB extends union([A, B]) {}
+
+  test("it exposes issues per candidate model", () => {
+    const error = catchError(() => AOrB.from({ a: 1 }))
+
+    expect(error.members).toEqual({
+      A: [
+        {
+          path: ["a"],
+          expected: "string",
+          actual: 1,
+          message: "Expecting string at a but instead got: 1"
+        }
+      ],
+      B: [
+        {
+          path: ["b"],
+          expected: "number",
+          actual: undefined,
+          message: "Expecting number at b but instead got: undefined"
+        }
+      ]
+    })
+    expect(error.issues).toEqual([...error.members!.A, ...error.members!.B])
+    expect(error.errors).toHaveLength(2)
+    expect(error.message).toMatchInlineSnapshot(`
+      "Couldn't decode using any of the provided union types.
+      A: Expecting string at a but instead got: 1
+      B: Expecting number at b but instead got: undefined"
+    `)
+  })
+
+  test("it tries the model matching `_tag` first", () => {
+    const error = catchError(() => AOrB.from({ _tag: "B", a: 1 }))
+    expect(Object.keys(error.members!)).toEqual(["B", "A"])
+  })
+
+  test("it includes members in JSON", () => {
+    const json = JSON.parse(JSON.stringify(catchError(() => AOrB.from("x"))))
+
+    expect(Object.keys(json)).toEqual(["name", "message", "issues", "members"])
+    expect(Object.keys(json.members)).toEqual(["A", "B"])
+  })
+
+  test("it reports paths of nested unions", () => {
+    class C extends model("C", t.type({ value: AOrB })) {}
+
+    expect(
+      catchError(() => C.from({ value: { c: 1 } })).issues.map(
+        issue => issue.path
+      )
+    ).toEqual([
+      ["value", "a"],
+      ["value", "b"]
+    ])
+  })
+})
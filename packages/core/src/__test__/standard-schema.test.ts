@@ -0,0 +1,140 @@
+import * as t from "../t"
+import { model } from "../model"
+import { union } from "../union"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+class A extends model(
+  "A",
+  t.type({ a: t.string, token: t.sensitive(t.string) })
+) {}
+class B extends model("B", t.type({ b: t.number })) {}
+
+class AOrB extends union([A, B]) {}
+
+/**
+ * Minimal stand-in for a Zod string schema with a min length.
+ */
+const minLength = (length: number) => ({
+  safeParse: (value: unknown): t.SafeParseResult<string> =>
+    typeof value === "string" && value.length >= length
+      ? { success: true, data: value }
+      : {
+          success: false,
+          error: { issues: [{ message: `Too short`, path: [] }] }
+        }
+})
+
+describe("~standard", () => {
+  test("it returns model instances", () => {
+    const result = A["~standard"].validate({ a: "a", token: "secret" })
+
+    expect(A["~standard"]).toMatchObject({ version: 1, vendor: "model-ts" })
+    expect(result).toEqual({ value: new A({ a: "a", token: "secret" }) })
+    expect((result as { value: unknown }).value).toBeInstanceOf(A)
+  })
+
+  test("it returns instances of the subclass", () => {
+    class C extends model("C", t.type({ c: t.string })) {
+      get upper() {
+        return this.c.toUpperCase()
+      }
+    }
+
+    const result = C["~standard"].validate({ c: "c" }) as { value: C }
+
+    expect(result.value).toBeInstanceOf(C)
+    expect(result.value.upper).toEqual("C")
+  })
+
+  test("it returns structured issues", () => {
+    expect(A["~standard"].validate({ a: 1, token: 2 })).toEqual({
+      issues: [
+        {
+          path: ["a"],
+          message: "Expecting string at a but instead got: 1"
+        },
+        {
+          path: ["token"],
+          message: 'Expecting string at token but instead got: "[REDACTED]"'
+        }
+      ]
+    })
+    expect(A["~standard"].validate(null)).toEqual({
+      issues: [
+        {
+          message:
+            "Expecting {| a: string, token: string |} but instead got: null"
+        }
+      ]
+    })
+  })
+
+  test("it validates unions", () => {
+    expect(AOrB["~standard"].validate({ _tag: "B", b: 1 })).toEqual({
+      value: new B({ b: 1 })
+    })
+    expect(AOrB["~standard"].validate({ b: "1" })).toMatchObject({
+      issues: [{ path: ["a"] }, { path: ["token"] }, { path: ["b"] }]
+    })
+  })
+})
+
+describe("fromZod", () => {
+  class User extends model(
+    "User",
+    t.type({
+      name: t.fromZod(minLength(2)),
+      address: t.fromZod(
+        (value: unknown): t.SafeParseResult<{ lines: string[] }> =>
+          Array.isArray((value as any)?.lines)
+            ? { success: true, data: value as { lines: string[] } }
+            : {
+                success: false,
+                error: {
+                  issues: [{ message: "Expected lines", path: ["lines", 0] }]
+                }
+              },
+        { name: "Address" }
+      )
+    })
+  ) {}
+
+  test("it decodes values parsed by the validator", () => {
+    const user = User.from({ name: "Jane", address: { lines: ["Main St"] } })
+
+    expect(user.name).toEqual("Jane")
+    expect(user.encode()).toEqual({
+      _tag: "User",
+      name: "Jane",
+      address: { lines: ["Main St"] }
+    })
+    expect(t.fromZod(minLength(2)).is("ab")).toBe(true)
+  })
+
+  test("it reports issues at their path", () => {
+    try {
+      User.from({ name: "J", address: { lines: "Main St" } })
+      throw new Error("Expected User.from to throw")
+    } catch (error) {
+      expect(error).toBeInstanceOf(RuntimeTypeValidationError)
+      expect(
+        (error as RuntimeTypeValidationError).issues.map(
+          ({ path, message, actual }) => ({ path, message, actual })
+        )
+      ).toEqual([
+        { path: ["name"], message: "Too short", actual: "J" },
+        {
+          path: ["address", "lines", "0"],
+          message: "Expected lines",
+          actual: undefined
+        }
+      ])
+    }
+  })
+
+  test("it encodes values with the given encoder", () => {
+    const codec = t.fromZod(minLength(1), { encode: value => value.length })
+
+    expect(codec.encode("abc")).toEqual(3)
+  })
+})
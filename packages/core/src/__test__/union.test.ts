@@ -79,6 +79,124 @@ describe("without providers", () => {
         RuntimeTypeValidationError
       )
     })
+
+    test("it falls back to other models if the matching model fails", () => {
+      expect(Union.from({ _tag: "A", b: 42 })).toBeInstanceOf(B)
+      expect(Union.decode({ _tag: "A", b: 42 })).toMatchObject({
+        _tag: "Right",
+        right: { _tag: "B", b: 42 }
+      })
+    })
+
+    test("it doesn't validate other models if the matching model succeeds", () => {
+      const validate = jest.spyOn(A, "validate")
+
+      try {
+        expect(Union.from({ _tag: "B", b: 42 })).toBeInstanceOf(B)
+        expect(validate).not.toHaveBeenCalled()
+      } finally {
+        validate.mockRestore()
+      }
+    })
+  })
+
+  test("it reports failures of all models", () => {
+    expect(() => Union.from(null)).toThrowErrorMatchingInlineSnapshot(`
+      "Couldn't decode using any of the provided union types.
+      A: Expecting {| a: string |} but instead got: null
+      B: Expecting {| b: number |} but instead got: null"
+    `)
+  })
+})
+
+describe("strict", () => {
+  class A extends model("A", t.type({ a: t.string })) {}
+  class B extends model("B", t.type({ b: t.number })) {}
+
+  class Union extends union([A, B], { strict: true }) {}
+
+  test("it only decodes values with a `_tag` using the matching model", () => {
+    expect(Union.from({ _tag: "B", b: 42 })).toBeInstanceOf(B)
+    expect(() => Union.from({ _tag: "A", b: 42 }))
+      .toThrowErrorMatchingInlineSnapshot(`
+      "Couldn't decode using any of the provided union types.
+      A: Expecting string at a but instead got: undefined"
+    `)
+    expect(Union.decode({ _tag: "A", b: 42 })._tag).toEqual("Left")
+  })
+
+  test("it rejects unknown tags", () => {
+    expect(() => Union.from({ _tag: "C", a: "a" }))
+      .toThrowErrorMatchingInlineSnapshot(`
+      "Couldn't decode using any of the provided union types.
+      C: Expecting "A" | "B" at _tag but instead got: "C""
+    `)
+    expect(Union.decode({ _tag: "C", a: "a" })._tag).toEqual("Left")
+  })
+
+  test("it tries all models for values without `_tag`", () => {
+    expect(Union.from({ b: 42 })).toBeInstanceOf(B)
+  })
+})
+
+describe("match", () => {
+  class A extends model("A", t.type({ a: t.string })) {}
+  class B extends model("B", t.type({ b: t.number })) {}
+  class C extends model("C", t.type({ c: t.boolean })) {}
+
+  class Union extends union([A, B, C]) {}
+
+  const a = new A({ a: "a" })
+  const b = new B({ b: 42 })
+  const c = new C({ c: true })
+
+  test("it calls the handler matching the `_tag`", () => {
+    const handlers = {
+      A: (value: A) => value.a,
+      B: (value: B) => value.b,
+      C: (value: C) => value.c
+    }
+
+    expect(Union.match(a, handlers)).toEqual("a")
+    expect(Union.match(b, handlers)).toEqual(42)
+    expect(Union.match(c, handlers)).toEqual(true)
+  })
+
+  test("it infers the member types of the handlers", () => {
+    const result: string | number = Union.match(b, {
+      A: value => value.a.toUpperCase(),
+      B: value => value.b + 1,
+      C: value => String(value.c)
+    })
+
+    expect(result).toEqual(43)
+  })
+
+  test("it supports a curried form", () => {
+    const format = Union.match({
+      A: value => `A(${value.a})`,
+      B: value => `B(${value.b})`,
+      C: value => `C(${value.c})`
+    })
+
+    expect([a, b, c].map(format)).toEqual(["A(a)", "B(42)", "C(true)"])
+  })
+
+  test("it falls back to `_`", () => {
+    const isA = Union.match({ A: () => true, _: () => false })
+
+    expect(isA(a)).toBe(true)
+    expect(isA(b)).toBe(false)
+    expect(isA(c)).toBe(false)
+  })
+
+  test("it requires all members to be handled", () => {
+    // @ts-expect-error
+    Union.match(a, { A: () => 1, B: () => 2 })
+    // @ts-expect-error
+    expect(() => Union.match(c, { A: () => 1 })).toThrowError(
+      "No handler for C provided."
+    )
   })
 })
 
@@ -104,6 +222,93 @@ describe("with provider", () => {
     expect(U.constValue).toEqual(42)
     expect(U.doubleConstValue).toEqual(84)
   })
+
+  test("it matches members", () => {
+    expect(
+      U.match(new B({ b: 42 }), { A: value => value.a, B: value => value.b })
+    ).toEqual(42)
+  })
+})
+
+describe("composition", () => {
+  const PROVIDER = {
+    unionProps: {
+      printModels<T extends Union>(this: T) {
+        return this._models.map(({ _tag }) => _tag).join(" | ")
+      }
+    }
+  }
+
+  class A extends model("A", t.type({ a: t.string })) {}
+  class B extends model("B", t.type({ b: t.number })) {}
+  class C extends model("C", t.type({ c: t.boolean })) {}
+  class D extends model("D", t.type({ d: t.string })) {}
+
+  class AB extends union([A, B], PROVIDER, { strict: true }) {}
+
+  test("it flattens unions", () => {
+    class ABC extends union([AB, C, A]) {}
+
+    expect(ABC._models).toEqual([A, B, C])
+    expect(ABC.from({ _tag: "C", c: true })).toBeInstanceOf(C)
+    expect(
+      ABC.match(ABC.from({ b: 42 }), {
+        A: value => value.a,
+        B: value => value.b,
+        C: value => value.c
+      })
+    ).toEqual(42)
+  })
+
+  test("it rejects unions with less than two distinct members", () => {
+    expect(() => union([A, A])).toThrowError(
+      "Union of A has less than two distinct members."
+    )
+    expect(() => union([B, B, B])).toThrowError(
+      "Union of B has less than two distinct members."
+    )
+  })
+
+  test("it rejects different models with the same tag", () => {
+    class OtherA extends model("A", t.type({ other: t.string })) {}
+
+    expect(() => union([AB, OtherA])).toThrowError(
+      'multiple models are tagged "A"'
+    )
+  })
+
+  test("it extends unions", () => {
+    const ABCD = AB.extend([union([C, D])])
+
+    expect(ABCD._models).toEqual([A, B, C, D])
+    expect(ABCD.from({ _tag: "D", d: "d" })).toBeInstanceOf(D)
+    // Provider and options are kept
+    expect(ABCD.printModels()).toEqual("A | B | C | D")
+    expect(() => ABCD.from({ _tag: "C", d: "d" })).toThrowError(
+      RuntimeTypeValidationError
+    )
+  })
+
+  test("it excludes members", () => {
+    const ABC = AB.extend([C])
+    const BC = ABC.exclude(["A"])
+
+    expect(BC._models).toEqual([B, C])
+    expect(BC.printModels()).toEqual("B | C")
+    expect(() => BC.from({ _tag: "A", a: "a" })).toThrowError(
+      RuntimeTypeValidationError
+    )
+    BC.match(new B({ b: 42 }), { B: value => value.b, C: value => value.c })
+    expect(() =>
+      // @ts-expect-error
+      BC.match(new A({ a: "a" }), { B: () => 1, C: () => 2 })
+    ).toThrowError("No handler for A provided.")
+    // @ts-expect-error
+    expect(AB.exclude(["D"])._models).toEqual([A, B])
+    expect(() => AB.exclude(["A"])).toThrowError(
+      "Excluding A leaves less than two union members."
+    )
+  })
 })
 
 describe("as io-ts codec", () => {
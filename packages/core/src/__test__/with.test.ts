@@ -0,0 +1,147 @@
+import * as t from "../t"
+import { model } from "../model"
+import { nested } from "../nested"
+import { RuntimeTypeValidationError } from "../runtime-type-validation-error"
+
+const CODEC = t.type({
+  name: t.withValidation(t.string, name => name.length <= 5, "Name too long"),
+  createdAt: t.DateFromISOString,
+  tags: t.array(t.string)
+})
+
+describe("with", () => {
+  const PROVIDER = {
+    instanceProps: {
+      greet<T extends { name: string }>(this: T) {
+        return `Hello ${this.name}`
+      }
+    }
+  }
+
+  class User extends model("User", CODEC, PROVIDER) {
+    get upperName() {
+      return this.name.toUpperCase()
+    }
+  }
+
+  const user = new User({
+    name: "Anna",
+    createdAt: new Date("2021-01-01T00:00:00.000Z"),
+    tags: ["a"]
+  })
+
+  test("it returns a new instance of the same class", () => {
+    const updated = user.with({ name: "Bob" })
+
+    expect(updated).toBeInstanceOf(User)
+    expect(updated).not.toBe(user)
+    expect(updated.values()).toEqual({
+      name: "Bob",
+      createdAt: new Date("2021-01-01T00:00:00.000Z"),
+      tags: ["a"]
+    })
+    expect(updated.upperName).toEqual("BOB")
+  })
+
+  test("it doesn't modify the original instance", () => {
+    user.with({ name: "Bob", tags: [] })
+    expect(user.name).toEqual("Anna")
+    expect(user.tags).toEqual(["a"])
+  })
+
+  test("it preserves provider instance props", () => {
+    expect(user.with({ name: "Bob" }).greet()).toEqual("Hello Bob")
+  })
+
+  test("it carries over additional fields", () => {
+    const withExtra = Object.assign(new User(user.values()), { _docVersion: 2 })
+    expect((withExtra.with({ name: "Bob" }) as any)._docVersion).toEqual(2)
+  })
+
+  test("it validates the patch through the codec", () => {
+    expect(() => user.with({ name: "Too long" })).toThrow(
+      RuntimeTypeValidationError
+    )
+    expect(() => user.with({ createdAt: "not a date" as any })).toThrow(
+      RuntimeTypeValidationError
+    )
+    expect(() => user.with({ tags: [42] as any })).toThrow(
+      RuntimeTypeValidationError
+    )
+  })
+})
+
+describe("freeze", () => {
+  class Address extends model(
+    "Address",
+    t.type({ street: t.string, lines: t.array(t.string) })
+  ) {}
+
+  class User extends model(
+    "User",
+    t.type({
+      name: t.string,
+      address: nested(Address),
+      tags: t.array(t.string)
+    }),
+    { freeze: true }
+  ) {
+    source = "test"
+  }
+
+  const create = () =>
+    User.from({
+      name: "Anna",
+      address: { street: "Main", lines: [] },
+      tags: []
+    })
+
+  test("it makes codec fields read-only", () => {
+    expect(() => {
+      ;(create() as any).name = "Bob"
+    }).toThrow(TypeError)
+  })
+
+  test("it deeply freezes field values", () => {
+    const user = create()
+
+    expect(() => user.tags.push("a")).toThrow(TypeError)
+    expect(() => {
+      ;(user.address as any).street = "Other"
+    }).toThrow(TypeError)
+    expect(() => user.address.lines.push("a")).toThrow(TypeError)
+  })
+
+  test("it doesn't freeze values passed in by callers", () => {
+    const tags = ["a"]
+    const address = new Address({ street: "Main", lines: [] })
+    const user = new User({ name: "Anna", address, tags })
+
+    expect(Object.isFrozen(user.tags)).toBe(true)
+    expect(Object.isFrozen(user.address)).toBe(true)
+    expect(user.address).toBeInstanceOf(Address)
+    tags.push("b")
+    address.lines.push("a")
+    expect(user.tags).toEqual(["a"])
+    expect(user.address.lines).toEqual([])
+  })
+
+  test("it allows subclass fields and `with()`", () => {
+    const user = create()
+
+    expect(user.source).toEqual("test")
+    expect(user.with({ name: "Bob" }).name).toEqual("Bob")
+    expect(user.encode()).toEqual({
+      _tag: "User",
+      name: "Anna",
+      address: { _tag: "Address", street: "Main", lines: [] },
+      tags: []
+    })
+  })
+
+  test("it doesn't freeze instances of models without `freeze`", () => {
+    const address = Address.from({ street: "Main", lines: [] })
+    address.lines.push("a")
+    expect(address.lines).toEqual(["a"])
+  })
+})
@@ -0,0 +1,458 @@
+import * as t from "io-ts"
+import { isLeft } from "fp-ts/lib/Either"
+import { Format, formatOf } from "./codecs"
+import { AnyModel } from "./model"
+import { Union } from "./union"
+import { isModel, isUnion } from "./utils"
+
+/**
+ * Source of randomness returning numbers in `[0, 1)`, e.g. `Math.random`.
+ */
+export type Random = () => number
+
+/**
+ * Generates random values that are valid for a codec.
+ */
+export type Arbitrary<A> = (random: Random) => A
+
+export interface ArbitraryOptions {
+  /**
+   * Depth of nested models and recursive codecs after which arrays are generated empty and
+   * optional props are omitted. Defaults to `3`.
+   */
+  maxDepth?: number
+
+  /**
+   * Maximum length of generated arrays, records and strings. Defaults to `5`.
+   */
+  maxLength?: number
+
+  /**
+   * Number of attempts to generate a value passing refinements (e.g. `t.withValidation`) and
+   * invariants. Defaults to `100`.
+   */
+  maxAttempts?: number
+}
+
+export interface SampleOptions extends ArbitraryOptions {
+  /**
+   * Seed of the generator, the same seed always generates the same values. Defaults to `0`.
+   */
+  seed?: number
+
+  /**
+   * Number of values to be generated. Defaults to `10`.
+   */
+  count?: number
+}
+
+type Generator = (random: Random, depth: number) => unknown
+
+interface Settings {
+  maxDepth: number
+  maxLength: number
+}
+
+const ALPHABET =
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 _-"
+const HEX = "0123456789abcdef"
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz"
+// Crockford's Base32, as used by ULIDs
+const BASE32 = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"
+const BASE62 = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+
+// Dates between 1970 and 2100
+const MAX_TIMESTAMP = 4102444800000
+
+/**
+ * Generators of the encoded representation of the curated io-ts-types codecs exposed through `t`.
+ */
+const NAMED_GENERATORS: { [name: string]: (random: Random) => unknown } = {
+  // Exceeding the range of safe integers
+  BigIntFromString: random =>
+    (random() < 0.5 ? "-" : "") +
+    integer(random, 1, 9) +
+    digits(random, integer(random, 0, 24)),
+  BooleanFromNumber: random => integer(random, 0, 1),
+  BooleanFromString: random => (random() < 0.5 ? "true" : "false"),
+  DateFromISOString: random => new Date(timestamp(random)).toISOString(),
+  DateFromNumber: random => timestamp(random),
+  DateFromUnixTime: random => Math.floor(timestamp(random) / 1000),
+  IntFromString: random => String(integer(random, -1e6, 1e6)),
+  JsonFromString: random => JSON.stringify(json(random)),
+  NumberFromString: random => String(float(random))
+}
+
+/**
+ * Generators of the encoded representation of the domain codecs exposed through `t`, by their
+ * format.
+ */
+function formatGenerator(format: Format): (random: Random) => unknown {
+  switch (format.kind) {
+    case "UUID":
+      return random =>
+        [8, 4, 4, 4, 12].map(length => chars(random, HEX, length)).join("-")
+    case "ULID":
+      return random => chars(random, "01", 1) + chars(random, BASE32, 25)
+    case "KSUID":
+      // Starting with a digit or an uppercase letter, the value can't exceed the largest KSUID
+      return random =>
+        chars(random, BASE62.slice(0, 36), 1) + chars(random, BASE62, 26)
+    case "Email":
+      return random =>
+        `${chars(random, LOWERCASE, integer(random, 1, 8))}@${chars(
+          random,
+          LOWERCASE,
+          integer(random, 1, 8)
+        )}.com`
+    case "URL":
+      return random =>
+        `https://${chars(random, LOWERCASE, integer(random, 1, 8))}.com/${chars(
+          random,
+          LOWERCASE,
+          integer(random, 0, 8)
+        )}`
+    case "ISODate":
+      return random => new Date(timestamp(random)).toISOString().slice(0, 10)
+    case "ISODuration":
+      return random =>
+        `P${integer(random, 0, 30)}DT${integer(random, 0, 23)}H${integer(
+          random,
+          0,
+          59
+        )}M`
+    case "Int": {
+      const { minimum } = format
+      return random => integer(random, minimum, 1e6)
+    }
+    case "DecimalString": {
+      const { scale } = format
+      return random =>
+        String(integer(random, -1e6, 1e6)) +
+        (scale > 0 ? `.${digits(random, integer(random, 1, scale))}` : "")
+    }
+    case "BoundedString": {
+      const { min, max } = format
+      return random => string(random, min, max)
+    }
+  }
+}
+
+/**
+ * Creates a deterministic source of randomness (mulberry32) from the given seed.
+ *
+ * @param seed - Seed of the generator
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let x = Math.imul(state ^ (state >>> 15), state | 1)
+    x ^= x + Math.imul(x ^ (x >>> 7), x | 61)
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Derives an arbitrary from a model, union or io-ts codec, generating random but valid decoded
+ * values, i.e. model instances for models and unions.
+ *
+ * Values are generated in their encoded representation and decoded with the codec, so defaults,
+ * migrations, refinements and invariants apply. Values failing refinements or invariants are
+ * regenerated.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class A extends model("A", t.type({ a: t.NonEmptyString, b: t.DateFromISOString })) {}
+ *
+ * const arbitraryA = arbitrary(A)
+ *
+ * arbitraryA(createRandom(42)) // -> A { a: "dX3", b: Date }
+ *
+ * // With fast-check
+ * fc.integer().map(seed => arbitraryA(createRandom(seed)))
+ * ```
+ *
+ * @param codec - Model, union or io-ts codec to generate values for.
+ * @param options - Limits of the generated values.
+ * @throws {Error} The codec (or one of its members) isn't supported.
+ */
+export function arbitrary<C extends AnyModel | Union | t.Any>(
+  codec: C,
+  { maxDepth = 3, maxLength = 5, maxAttempts = 100 }: ArbitraryOptions = {}
+): Arbitrary<C["_A"]> {
+  const generate = generatorOf(codec, { maxDepth, maxLength })
+  const decoder = codec as t.Decoder<unknown, C["_A"]>
+
+  return random => {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const decoded = decoder.decode(generate(random, 0))
+      if (!isLeft(decoded)) return decoded.right
+    }
+
+    throw new Error(
+      `Couldn't generate a valid value for ${codec.name} in ${maxAttempts} attempts.`
+    )
+  }
+}
+
+/**
+ * Generates values for a model, union or io-ts codec from a seed.
+ *
+ * ### Example
+ *
+ * ```ts
+ * sample(A, { seed: 42, count: 3 }) // -> [A { ... }, A { ... }, A { ... }]
+ * ```
+ *
+ * @param codec - Model, union or io-ts codec to generate values for.
+ * @param options - Seed, number of values and limits of the generated values.
+ */
+export function sample<C extends AnyModel | Union | t.Any>(
+  codec: C,
+  { seed = 0, count = 10, ...options }: SampleOptions = {}
+): Array<C["_A"]> {
+  const generate = arbitrary(codec, options)
+  const random = createRandom(seed)
+
+  return Array.from({ length: count }, () => generate(random))
+}
+
+/**
+ * Builds a generator of encoded values for the given codec.
+ */
+function generatorOf(codec: t.Any, settings: Settings): Generator {
+  const { maxDepth, maxLength } = settings
+
+  if (isUnion(codec)) {
+    const members = codec._models.map(model => generatorOf(model, settings))
+    return (random, depth) => pick(random, members)(random, depth)
+  }
+
+  if (isModel(codec)) {
+    const model: AnyModel = codec
+    let props: Generator | undefined
+
+    return (random, depth) => {
+      // Resolved lazily to support recursive models
+      props ??= generatorOf(model._codec, settings)
+
+      return {
+        ...(props(random, depth + 1) as object),
+        _tag: model._tag,
+        ...(model._version === undefined ? {} : { _version: model._version })
+      }
+    }
+  }
+
+  const format = formatOf(codec)
+  if (format) return formatGenerator(format)
+
+  const type = codec as t.Any & { _tag?: string }
+
+  switch (type._tag) {
+    case "StringType":
+      return random => string(random, 0, maxLength)
+    case "NumberType":
+      return random => float(random)
+    case "BooleanType":
+      return random => random() < 0.5
+    case "NullType":
+      return () => null
+    case "UndefinedType":
+    case "VoidType":
+      return () => undefined
+    case "UnknownType":
+    case "AnyType":
+      return random => json(random)
+    case "AnyArrayType":
+      return () => []
+    case "AnyDictionaryType":
+    case "ObjectType":
+      return () => ({})
+    case "LiteralType": {
+      const { value } = codec as t.LiteralC<string | number | boolean>
+      return () => value
+    }
+    case "KeyofType": {
+      const keys = Object.keys((codec as t.KeyofC<any>).keys)
+      return random => pick(random, keys)
+    }
+    case "RefinementType": {
+      if (codec.name === "Int") return random => integer(random, -1e6, 1e6)
+      if (codec.name === "NonEmptyString")
+        return random => string(random, 1, maxLength)
+
+      // Other refinements are checked when decoding
+      return generatorOf((codec as t.RefinementC<t.Any>).type, settings)
+    }
+    case "ReadonlyType":
+      return generatorOf((codec as t.ReadonlyC<t.Any>).type, settings)
+    case "ArrayType":
+    case "ReadonlyArrayType": {
+      const item = generatorOf((codec as t.ArrayC<t.Any>).type, settings)
+      return (random, depth) =>
+        depth > maxDepth ? [] : list(random, 0, maxLength, item, depth)
+    }
+    case "TupleType": {
+      const items = (codec as t.TupleC<[t.Mixed]>).types.map(type =>
+        generatorOf(type, settings)
+      )
+      return (random, depth) => items.map(item => item(random, depth))
+    }
+    case "InterfaceType":
+    case "StrictType":
+    case "PartialType": {
+      const optional = type._tag === "PartialType"
+      const props = Object.entries((codec as t.TypeC<t.Props>).props).map(
+        ([key, type]) => [key, generatorOf(type, settings)] as const
+      )
+
+      return (random, depth) =>
+        Object.fromEntries(
+          props
+            .filter(() => !optional || (depth <= maxDepth && random() < 0.5))
+            .map(([key, generate]) => [key, generate(random, depth)])
+        )
+    }
+    case "ExactType":
+      return generatorOf((codec as t.ExactC<t.HasProps>).type, settings)
+    case "IntersectionType": {
+      const members = (codec as t.IntersectionC<[t.Mixed, t.Mixed]>).types.map(
+        type => generatorOf(type, settings)
+      )
+
+      return (random, depth) => {
+        const values = members.map(member => member(random, depth))
+
+        return values.every(value => typeof value === "object" && value)
+          ? Object.assign({}, ...values)
+          : values[0]
+      }
+    }
+    case "UnionType": {
+      const members = (codec as t.UnionC<[t.Mixed, t.Mixed]>).types.map(type =>
+        generatorOf(type, settings)
+      )
+      return (random, depth) => pick(random, members)(random, depth)
+    }
+    case "DictionaryType": {
+      const { domain, codomain } = codec as t.RecordC<t.Mixed, t.Mixed>
+      const value = generatorOf(codomain, settings)
+      const keys = finiteKeys(domain)
+
+      // Records with a finite domain require all keys to be present
+      if (keys)
+        return (random, depth) =>
+          Object.fromEntries(keys.map(key => [key, value(random, depth)]))
+
+      const key = generatorOf(domain, settings)
+      return (random, depth) =>
+        Object.fromEntries(
+          depth > maxDepth
+            ? []
+            : list(random, 0, maxLength, key, depth).map(key => [
+                key,
+                value(random, depth)
+              ])
+        )
+    }
+    case "RecursiveType": {
+      let inner: Generator | undefined
+
+      return (random, depth) => {
+        // Resolved lazily, since the codec refers to itself
+        inner ??= generatorOf((codec as t.RecursiveType<t.Any>).type, settings)
+        return inner(random, depth + 1)
+      }
+    }
+  }
+
+  if (codec.name in NAMED_GENERATORS) return NAMED_GENERATORS[codec.name]
+
+  // `t.nonEmptyArray` and `t.readonlyNonEmptyArray`
+  const item = (codec as t.Any & { type?: t.Any }).type
+  if (/^(Readonly)?NonEmptyArray</.test(codec.name) && item) {
+    const generate = generatorOf(item, settings)
+    return (random, depth) =>
+      list(random, 1, Math.max(maxLength, 1), generate, depth)
+  }
+
+  throw new Error(`Can't generate values for codec ${codec.name}.`)
+}
+
+/**
+ * Keys of records with a domain of literals or `t.keyof`.
+ */
+function finiteKeys(domain: t.Any): string[] | undefined {
+  const type = domain as t.Any & { _tag?: string }
+
+  if (type._tag === "KeyofType")
+    return Object.keys((domain as t.KeyofC<any>).keys)
+  if (type._tag === "LiteralType")
+    return [String((domain as t.LiteralC<string>).value)]
+  if (type._tag === "UnionType") {
+    const keys = (domain as t.UnionC<[t.Mixed, t.Mixed]>).types.map(finiteKeys)
+    return keys.every(Boolean) ? (keys as string[][]).flat() : undefined
+  }
+
+  return undefined
+}
+
+function integer(random: Random, min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+function float(random: Random) {
+  return Math.round((random() * 2 - 1) * 1e6) / 100
+}
+
+function digits(random: Random, length: number) {
+  return Array.from({ length }, () => integer(random, 0, 9)).join("")
+}
+
+function timestamp(random: Random) {
+  return integer(random, 0, MAX_TIMESTAMP)
+}
+
+function pick<A>(random: Random, values: A[]): A {
+  return values[Math.floor(random() * values.length)]
+}
+
+function chars(random: Random, alphabet: string, length: number) {
+  return Array.from({ length }, () =>
+    alphabet.charAt(Math.floor(random() * alphabet.length))
+  ).join("")
+}
+
+function string(random: Random, min: number, max: number) {
+  return Array.from({ length: integer(random, min, max) }, () =>
+    ALPHABET.charAt(Math.floor(random() * ALPHABET.length))
+  ).join("")
+}
+
+function list(
+  random: Random,
+  min: number,
+  max: number,
+  item: Generator,
+  depth: number
+) {
+  return Array.from({ length: integer(random, min, max) }, () =>
+    item(random, depth)
+  )
+}
+
+/**
+ * Random JSON primitive.
+ */
+function json(random: Random) {
+  return pick<() => unknown>(random, [
+    () => string(random, 0, 5),
+    () => float(random),
+    () => random() < 0.5,
+    () => null
+  ])()
+}
@@ -0,0 +1,449 @@
+import { either } from "fp-ts/lib/Either"
+import * as t from "io-ts"
+import { UUID as _UUID } from "io-ts-types/lib/UUID"
+import { NonEmptyString } from "io-ts-types/lib/NonEmptyString"
+import { withMessage } from "io-ts-types/lib/withMessage"
+
+const FORMAT = Symbol.for("@model-ts/core/format")
+
+/**
+ * Format of the values of a domain codec, used to derive JSON schemas and arbitraries.
+ */
+export type Format =
+  | {
+      kind:
+        | "UUID"
+        | "ULID"
+        | "KSUID"
+        | "Email"
+        | "URL"
+        | "ISODate"
+        | "ISODuration"
+    }
+  | { kind: "Int"; minimum: number }
+  | { kind: "DecimalString"; scale: number }
+  | { kind: "BoundedString"; min: number; max: number }
+
+const withFormat = <C extends t.Any>(codec: C, format: Format): C =>
+  Object.assign(codec, { [FORMAT]: format })
+
+/**
+ * Returns the format of the given domain codec, if any. Formats are kept by `t.sensitive` and
+ * `withMessage`.
+ */
+export const formatOf = (codec: t.Decoder<any, any>): Format | undefined =>
+  (codec as any)[FORMAT]
+
+/**
+ * Creates a branded refinement of the codec with the given name and format, failing with the
+ * given message.
+ */
+const brand = <C extends t.Any, B>(
+  codec: C,
+  predicate: (value: t.TypeOf<C>) => boolean,
+  name: string,
+  message: string,
+  format: Format
+): t.BrandC<C, B> =>
+  withFormat(
+    withMessage(
+      new t.RefinementType<C, t.Branded<t.TypeOf<C>, B>>(
+        name,
+        (value): value is t.Branded<t.TypeOf<C>, B> =>
+          codec.is(value) && predicate(value),
+        (value, context) =>
+          either.chain(codec.validate(value, context), (decoded) =>
+            predicate(decoded)
+              ? t.success(decoded as t.Branded<t.TypeOf<C>, B>)
+              : t.failure(value, context)
+          ),
+        (value) => codec.encode(value),
+        codec,
+        predicate
+      ),
+      () => message
+    ),
+    format
+  )
+
+/**
+ * RFC 4122 UUID, e.g. `"123e4567-e89b-12d3-a456-426614174000"`.
+ */
+export const UUID = withFormat(
+  withMessage(_UUID, () => "Expected a UUID"),
+  { kind: "UUID" }
+)
+
+export type UUID = _UUID
+
+// Crockford's Base32, as used by ULIDs
+const BASE32 = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"
+const BASE62 = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+
+export interface ULIDBrand {
+  readonly ULID: unique symbol
+}
+
+export type ULID = t.Branded<string, ULIDBrand>
+
+/**
+ * ULID in its canonical (uppercase) representation, e.g. `"01ARZ3NDEKTSV4RRFFQ69G5FAV"`.
+ */
+export const ULID = brand<t.StringC, ULIDBrand>(
+  t.string,
+  (value) => /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/.test(value),
+  "ULID",
+  "Expected a ULID",
+  { kind: "ULID" }
+)
+
+export interface KSUIDBrand {
+  readonly KSUID: unique symbol
+}
+
+export type KSUID = t.Branded<string, KSUIDBrand>
+
+// Largest KSUID, i.e. 20 bytes of 0xff
+const MAX_KSUID = "aWgEPTl1tmebfsQzFP4bxwgy80V"
+
+/**
+ * KSUID, e.g. `"0ujtsYcgvSTl8PAuAdqWYSMnLOv"`.
+ */
+export const KSUID = brand<t.StringC, KSUIDBrand>(
+  t.string,
+  (value) => /^[0-9A-Za-z]{27}$/.test(value) && value <= MAX_KSUID,
+  "KSUID",
+  "Expected a KSUID",
+  { kind: "KSUID" }
+)
+
+export interface EmailBrand {
+  readonly Email: unique symbol
+}
+
+export type Email = t.Branded<string, EmailBrand>
+
+/**
+ * Email address. Only the basic shape (`local@domain.tld`) is checked.
+ */
+export const Email = brand<t.StringC, EmailBrand>(
+  t.string,
+  (value) => /^[^\s@]+@[^\s@]+\.[^\s@.]+$/.test(value),
+  "Email",
+  "Expected an email address",
+  { kind: "Email" }
+)
+
+export interface URLBrand {
+  readonly URL: unique symbol
+}
+
+export type URL = t.Branded<string, URLBrand>
+
+/**
+ * Absolute URL, e.g. `"https://example.com/path"`.
+ */
+export const URL = brand<t.StringC, URLBrand>(
+  t.string,
+  (value) => {
+    try {
+      // The codec shadows the global URL
+      new globalThis.URL(value)
+      return true
+    } catch (_) {
+      return false
+    }
+  },
+  "URL",
+  "Expected an absolute URL",
+  { kind: "URL" }
+)
+
+export interface ISODateBrand {
+  readonly ISODate: unique symbol
+}
+
+export type ISODate = t.Branded<string, ISODateBrand>
+
+/**
+ * ISO-8601 calendar date without a time, e.g. `"2024-02-29"`. Unlike `DateFromISOString`, values
+ * are kept as strings, so they aren't shifted by time zones.
+ */
+export const ISODate = brand<t.StringC, ISODateBrand>(
+  t.string,
+  (value) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    // Rejects dates like 2023-02-29
+    !isNaN(Date.parse(value)) &&
+    new Date(value).toISOString().startsWith(value),
+  "ISODate",
+  "Expected an ISO-8601 date (YYYY-MM-DD)",
+  { kind: "ISODate" }
+)
+
+export interface ISODurationBrand {
+  readonly ISODuration: unique symbol
+}
+
+export type ISODuration = t.Branded<string, ISODurationBrand>
+
+/**
+ * ISO-8601 duration, e.g. `"P1DT12H"` or `"PT0.5S"`.
+ */
+export const ISODuration = brand<t.StringC, ISODurationBrand>(
+  t.string,
+  (value) =>
+    /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(
+      value
+    ),
+  "ISODuration",
+  "Expected an ISO-8601 duration",
+  { kind: "ISODuration" }
+)
+
+export interface NonNegativeIntBrand {
+  readonly NonNegativeInt: unique symbol
+}
+
+export type NonNegativeInt = t.Branded<t.Int, NonNegativeIntBrand>
+
+/**
+ * Integer greater than or equal to zero.
+ */
+export const NonNegativeInt = brand<t.Type<t.Int, number>, NonNegativeIntBrand>(
+  t.Int,
+  (value) => value >= 0,
+  "NonNegativeInt",
+  "Expected a non-negative integer",
+  { kind: "Int", minimum: 0 }
+)
+
+export interface PositiveIntBrand {
+  readonly PositiveInt: unique symbol
+}
+
+export type PositiveInt = t.Branded<NonNegativeInt, PositiveIntBrand>
+
+/**
+ * Integer greater than zero. Positive integers are non-negative integers as well.
+ */
+export const PositiveInt = brand<
+  t.Type<NonNegativeInt, number>,
+  PositiveIntBrand
+>(
+  NonNegativeInt,
+  (value) => value > 0,
+  "PositiveInt",
+  "Expected a positive integer",
+  { kind: "Int", minimum: 1 }
+)
+
+declare const SCALE: unique symbol
+
+export interface DecimalStringBrand<Scale extends number> {
+  readonly DecimalString: unique symbol
+  readonly [SCALE]: Scale
+}
+
+/**
+ * Decimal string with the given scale, e.g. `DecimalString<2>`. Decimal strings of different
+ * scales can't be mixed up, `DecimalString` accepts any scale.
+ */
+export type DecimalString<Scale extends number = number> = t.Branded<
+  string,
+  DecimalStringBrand<Scale>
+>
+
+/**
+ * Decimal number represented as a string, with at most `scale` digits after the decimal point,
+ * e.g. `"-12.50"` for a scale of 2. Useful for amounts that mustn't lose precision.
+ *
+ * @param scale - Maximum number of fractional digits.
+ */
+export const decimalString = <Scale extends number>(scale: Scale) =>
+  brand<t.StringC, DecimalStringBrand<Scale>>(
+    t.string,
+    (value) =>
+      new RegExp(`^-?\\d+${scale > 0 ? `(\\.\\d{1,${scale}})?` : ""}$`).test(
+        value
+      ),
+    `DecimalString<${scale}>`,
+    scale > 0
+      ? `Expected a decimal string with at most ${scale} fractional digits`
+      : "Expected an integer string",
+    { kind: "DecimalString", scale }
+  )
+
+export interface BoundedStringBrand {
+  readonly BoundedString: unique symbol
+}
+
+export type BoundedString = t.Branded<string, BoundedStringBrand>
+
+/**
+ * String with a length between `min` and `max` (inclusive).
+ *
+ * @param min - Minimum length.
+ * @param max - Maximum length.
+ */
+export const boundedString = (min: number, max: number) =>
+  brand<t.StringC, BoundedStringBrand>(
+    t.string,
+    (value) => value.length >= min && value.length <= max,
+    `BoundedString<${min}, ${max}>`,
+    `Expected a string of ${min} to ${max} characters`,
+    { kind: "BoundedString", min, max }
+  )
+
+/**
+ * Enum of the given strings, e.g. from a readonly array shared with other code.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const ROLES = ["admin", "member"] as const
+ *
+ * class User extends model("User", t.type({ role: t.enumOf(ROLES) })) {}
+ * ```
+ *
+ * @param values - Allowed values.
+ * @param name - Name of the codec.
+ */
+export const enumOf = <T extends readonly [string, ...string[]]>(
+  values: T,
+  name: string = values.map((value) => JSON.stringify(value)).join(" | ")
+): t.KeyofC<{ [K in T[number]]: null }> =>
+  withMessage(
+    t.keyof(
+      Object.fromEntries(values.map((value) => [value, null])) as {
+        [K in T[number]]: null
+      },
+      name
+    ),
+    () =>
+      `Expected one of ${values
+        .map((value) => JSON.stringify(value))
+        .join(", ")}`
+  )
+
+declare const ID: unique symbol
+
+/**
+ * Identifier of a model with the given tag, e.g. `Id<"User">`, which can't be mixed up with
+ * identifiers of other models.
+ */
+export type Id<Tag extends string, A = string> = A & {
+  readonly [ID]: Tag
+}
+
+export interface IdC<Tag extends string, C extends t.Mixed>
+  extends t.RefinementType<
+    C,
+    Id<Tag, t.TypeOf<C>>,
+    t.OutputOf<C>,
+    t.InputOf<C>
+  > {}
+
+/**
+ * Branded identifier of a model. The format of identifiers can be restricted by another codec,
+ * e.g. `t.ULID`. Errors of that codec are reported as is.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class User extends model("User", t.type({ id: t.id("User", t.ULID) })) {}
+ *
+ * const getUser = (id: t.Id<"User">) => ...
+ * ```
+ *
+ * @param tag - Tag of the model.
+ * @param codec - Codec of the identifiers, non-empty strings by default (failing with e.g.
+ * `Expected a non-empty User id`).
+ */
+export function id<Tag extends string>(
+  tag: Tag
+): IdC<Tag, typeof NonEmptyString>
+export function id<
+  Tag extends string,
+  C extends t.Mixed & t.Decoder<unknown, string>
+>(tag: Tag, codec: C): IdC<Tag, C>
+export function id(
+  tag: string,
+  codec: t.Mixed = withMessage(
+    NonEmptyString,
+    () => `Expected a non-empty ${tag} id`
+  )
+) {
+  return new t.RefinementType(
+    `${tag}Id`,
+    (value): value is string => codec.is(value),
+    (value, context) => codec.validate(value, context),
+    (value) => codec.encode(value),
+    codec,
+    () => true
+  )
+}
+
+// Web Crypto, available in Node.js, browsers and workers
+const randomBytes = (length: number) =>
+  globalThis.crypto.getRandomValues(new Uint8Array(length))
+
+/**
+ * Generates a ULID for the given date. ULIDs sort chronologically, e.g. when used as sort keys.
+ *
+ * @param date - Date encoded in the ULID, the current date by default.
+ */
+export function generateULID(date: Date = new Date()): ULID {
+  let time = date.getTime()
+  let encoded = ""
+
+  // 48 bits of milliseconds
+  for (let index = 0; index < 10; index++) {
+    encoded = BASE32[time % 32] + encoded
+    time = Math.floor(time / 32)
+  }
+
+  // 80 bits of randomness
+  randomBytes(16).forEach((byte) => (encoded += BASE32[byte % 32]))
+
+  return encoded as ULID
+}
+
+// Start of the KSUID epoch (2014-05-13T16:53:20Z) in seconds
+const KSUID_EPOCH = 1400000000
+
+/**
+ * Generates a KSUID for the given date. KSUIDs sort chronologically (with a precision of seconds),
+ * e.g. when used as sort keys.
+ *
+ * @param date - Date encoded in the KSUID, the current date by default.
+ * @throws {Error} The date is before the KSUID epoch.
+ */
+export function generateKSUID(date: Date = new Date()): KSUID {
+  const time = Math.floor(date.getTime() / 1000) - KSUID_EPOCH
+  if (time < 0 || time > 0xffffffff)
+    throw new Error(`Can't generate a KSUID for ${date.toISOString()}.`)
+
+  // 32 bits of seconds followed by 128 bits of randomness
+  let bytes = [
+    time >>> 24,
+    (time >>> 16) & 0xff,
+    (time >>> 8) & 0xff,
+    time & 0xff,
+    ...randomBytes(16),
+  ]
+  let encoded = ""
+
+  // Base62 encoding via long division
+  while (bytes.some((byte) => byte > 0)) {
+    let remainder = 0
+    bytes = bytes.map((byte) => {
+      const value = remainder * 256 + byte
+      remainder = value % 62
+      return Math.floor(value / 62)
+    })
+    encoded = BASE62[remainder] + encoded
+  }
+
+  return encoded.padStart(27, "0") as KSUID
+}
@@ -0,0 +1,102 @@
+/**
+ * Request-scoped context available to providers, e.g. for audit fields or event metadata.
+ *
+ * Additional fields can be typed by augmenting the interface:
+ *
+ * ```ts
+ * declare module "@model-ts/core" {
+ *   interface ModelContext {
+ *     locale?: string
+ *   }
+ * }
+ * ```
+ */
+export interface ModelContext {
+  tenantId?: string
+  traceId?: string
+  /**
+   * Identifier of the acting user or service.
+   */
+  actor?: string
+}
+
+interface ContextStorage {
+  run<R>(context: ModelContext, fn: () => R): R
+  getStore(): ModelContext | undefined
+}
+
+let storage: ContextStorage | undefined
+
+/**
+ * Returns the storage of the current context. `async_hooks` is loaded lazily and only on Node.js, so
+ * that the package can be used in other environments, where the context is only available
+ * synchronously within `runWithContext`.
+ */
+const getStorage = (): ContextStorage => {
+  if (storage) return storage
+
+  const asyncHooks = loadAsyncHooks()
+  storage = asyncHooks
+    ? new asyncHooks.AsyncLocalStorage<ModelContext>()
+    : synchronousStorage()
+
+  return storage
+}
+
+function loadAsyncHooks(): typeof import("async_hooks") | undefined {
+  const process = (globalThis as any).process
+  if (typeof process?.getBuiltinModule === "function")
+    return process.getBuiltinModule("async_hooks")
+  if (
+    typeof process?.versions?.node === "string" &&
+    typeof require === "function"
+  )
+    return require("async_hooks")
+  return undefined
+}
+
+function synchronousStorage(): ContextStorage {
+  let current: ModelContext | undefined
+
+  return {
+    run(context, fn) {
+      const previous = current
+      current = context
+      try {
+        return fn()
+      } finally {
+        current = previous
+      }
+    },
+    getStore: () => current
+  }
+}
+
+/**
+ * Runs the function with the given context, merged into the current context if called within
+ * another `runWithContext`. The context is available via `getContext()` until the function and all
+ * asynchronous work started by it are done.
+ *
+ * ### Example
+ *
+ * ```ts
+ * export const handler = (event: APIGatewayProxyEvent) =>
+ *   runWithContext(
+ *     { tenantId: event.headers["x-tenant-id"], traceId: event.requestContext.requestId },
+ *     () => handle(event)
+ *   )
+ * ```
+ *
+ * @param context - Context to provide.
+ * @param fn - Function to run with the context.
+ */
+export function runWithContext<R>(context: ModelContext, fn: () => R): R {
+  return getStorage().run({ ...getContext(), ...context }, fn)
+}
+
+/**
+ * Returns the current context, or an empty context outside of `runWithContext`.
+ */
+export function getContext(): Readonly<ModelContext> {
+  return getStorage().getStore() ?? {}
+}
@@ -0,0 +1,419 @@
+import * as t from "io-ts"
+import { AnyModel } from "./model"
+import { isSensitive } from "./types"
+import { Union } from "./union"
+import { isModel, isUnion, partitionProps } from "./utils"
+
+export type DescriptorKind =
+  | "string"
+  | "number"
+  | "boolean"
+  | "bigint"
+  | "date"
+  | "null"
+  | "undefined"
+  | "literal"
+  | "enum"
+  | "array"
+  | "tuple"
+  | "record"
+  | "object"
+  | "model"
+  | "union"
+  | "intersection"
+  | "unknown"
+
+/**
+ * Normalized description of a codec.
+ */
+export interface TypeDescriptor {
+  kind: DescriptorKind
+  /**
+   * Name of the decoded type, e.g. `Date` for `t.DateFromISOString`.
+   */
+  type: string
+  /**
+   * Name of the encoded type, e.g. `string` for `t.DateFromISOString`.
+   */
+  encoded: string
+  /**
+   * Names of refinements and brands, outermost first, e.g. `["NonEmptyString"]`.
+   */
+  refinements?: string[]
+  /**
+   * Whether the codec was marked via `t.sensitive`.
+   */
+  sensitive?: boolean
+  /**
+   * Allowed values of literals and enums.
+   */
+  options?: unknown[]
+  /**
+   * Tag of models.
+   */
+  tag?: string
+  /**
+   * Tags of the members of model unions.
+   */
+  tags?: string[]
+  /**
+   * Schema version of versioned models.
+   */
+  version?: number
+  /**
+   * Elements of arrays and values of records.
+   */
+  element?: TypeDescriptor
+  /**
+   * Elements of tuples.
+   */
+  elements?: TypeDescriptor[]
+  /**
+   * Keys of records.
+   */
+  key?: TypeDescriptor
+  /**
+   * Fields of objects and models. Omitted for models and recursive codecs already being described
+   * by a parent.
+   */
+  fields?: FieldDescriptor[]
+  /**
+   * Members of unions and intersections.
+   */
+  members?: TypeDescriptor[]
+}
+
+export interface FieldDescriptor extends TypeDescriptor {
+  name: string
+  /**
+   * Whether the field has to be present, i.e. it isn't declared via `t.partial` and doesn't
+   * accept `undefined`.
+   */
+  required: boolean
+  /**
+   * Whether the field is a computed field of a model, i.e. read-only and of an unknown type.
+   */
+  computed?: boolean
+}
+
+export interface ModelDescriptor extends TypeDescriptor {
+  kind: "model"
+  tag: string
+  fields: FieldDescriptor[]
+}
+
+export interface UnionDescriptor extends TypeDescriptor {
+  kind: "union"
+  tags: string[]
+  members: ModelDescriptor[]
+}
+
+type Named = Pick<TypeDescriptor, "kind" | "type" | "encoded">
+
+/**
+ * Descriptions of the curated io-ts-types codecs exposed through `t`.
+ */
+const NAMED_DESCRIPTORS: { [name: string]: Named } = {
+  BigIntFromString: { kind: "bigint", type: "bigint", encoded: "string" },
+  BooleanFromNumber: { kind: "boolean", type: "boolean", encoded: "number" },
+  BooleanFromString: { kind: "boolean", type: "boolean", encoded: "string" },
+  Date: { kind: "date", type: "Date", encoded: "Date" },
+  DateFromISOString: { kind: "date", type: "Date", encoded: "string" },
+  DateFromNumber: { kind: "date", type: "Date", encoded: "number" },
+  DateFromUnixTime: { kind: "date", type: "Date", encoded: "number" },
+  IntFromString: { kind: "number", type: "Int", encoded: "string" },
+  JsonFromString: { kind: "unknown", type: "Json", encoded: "string" },
+  NumberFromString: { kind: "number", type: "number", encoded: "string" }
+}
+
+const PRIMITIVES: { [tag: string]: DescriptorKind } = {
+  StringType: "string",
+  NumberType: "number",
+  BooleanType: "boolean",
+  BigIntType: "bigint",
+  NullType: "null",
+  UndefinedType: "undefined",
+  VoidType: "undefined"
+}
+
+/**
+ * Describes the fields of a model, the members of a union or an io-ts codec as a normalized tree,
+ * e.g. for admin UIs, docs generators or importers.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class User extends model(
+ *   "User",
+ *   t.intersection([t.type({ name: t.string }), t.partial({ tags: t.array(t.string) })])
+ * ) {}
+ *
+ * describe(User).fields
+ * // -> [
+ * //   { name: "name", required: true, kind: "string", type: "string", encoded: "string" },
+ * //   { name: "tags", required: false, kind: "array", type: "Array<string>", encoded: "Array<string>", element: { ... } }
+ * // ]
+ * ```
+ *
+ * @param codec - Model, union or io-ts codec to describe.
+ */
+export function describe(codec: AnyModel): ModelDescriptor
+export function describe(codec: Union): UnionDescriptor
+export function describe(codec: t.Any): TypeDescriptor
+export function describe(codec: t.Any): TypeDescriptor {
+  return describeType(codec, new Set())
+}
+
+/**
+ * @param parents - Models and recursive codecs currently being described, to stop at cycles.
+ */
+function describeType(codec: t.Any, parents: Set<unknown>): TypeDescriptor {
+  // Refinements and brands only narrow their underlying type
+  const refinements: string[] = []
+  let sensitive = isSensitive(codec)
+  let type = codec as t.Any & { _tag?: string }
+  while (
+    type._tag === "RefinementType" ||
+    type._tag === "ReadonlyType" ||
+    type._tag === "ExactType"
+  ) {
+    if (type._tag === "RefinementType") refinements.push(type.name)
+    type = (type as t.RefinementC<t.Any>).type
+    sensitive = sensitive || isSensitive(type)
+  }
+
+  const descriptor = describeUnrefined(type, parents)
+  return {
+    ...descriptor,
+    // Refinements are part of the decoded type, e.g. `Int`
+    ...(refinements.length
+      ? { type: refinements[0], refinements: [...refinements] }
+      : {}),
+    ...(sensitive ? { sensitive } : {})
+  }
+}
+
+function describeUnrefined(
+  codec: t.Any & { _tag?: string },
+  parents: Set<unknown>
+): TypeDescriptor {
+  if (isUnion(codec)) {
+    const members = codec._models.map(
+      model => describeType(model, parents) as ModelDescriptor
+    )
+    const name = members.map(({ tag }) => tag).join(" | ")
+    return {
+      kind: "union",
+      type: name,
+      encoded: name,
+      tags: members.map(({ tag }) => tag),
+      members
+    }
+  }
+
+  if (isModel(codec)) {
+    const model: TypeDescriptor = {
+      kind: "model",
+      type: codec._tag,
+      encoded: codec._tag,
+      tag: codec._tag,
+      ...(codec._version === undefined ? {} : { version: codec._version })
+    }
+    if (parents.has(codec)) return model
+
+    return {
+      ...model,
+      fields: [
+        ...fieldsOf(codec._codec, new Set([...parents, codec])),
+        ...codec._computed.map(name => ({
+          name,
+          required: true,
+          kind: "unknown" as const,
+          type: "unknown",
+          encoded: "unknown",
+          computed: true
+        }))
+      ]
+    }
+  }
+
+  if (codec._tag && codec._tag in PRIMITIVES)
+    return {
+      kind: PRIMITIVES[codec._tag],
+      type: codec.name,
+      encoded: codec.name
+    }
+
+  switch (codec._tag) {
+    case "LiteralType":
+      return {
+        kind: "literal",
+        type: codec.name,
+        encoded: codec.name,
+        options: [(codec as t.LiteralC<any>).value]
+      }
+    case "KeyofType":
+      return {
+        kind: "enum",
+        type: codec.name,
+        encoded: codec.name,
+        options: Object.keys((codec as t.KeyofC<any>).keys)
+      }
+    case "AnyArrayType":
+      return { kind: "array", type: codec.name, encoded: codec.name }
+    case "AnyDictionaryType":
+    case "ObjectType":
+      return { kind: "object", type: codec.name, encoded: codec.name }
+    case "ArrayType":
+    case "ReadonlyArrayType": {
+      const element = describeType((codec as t.ArrayC<t.Any>).type, parents)
+      const wrapper = codec._tag === "ArrayType" ? "Array" : "ReadonlyArray"
+      return {
+        kind: "array",
+        type: codec.name,
+        encoded: `${wrapper}<${element.encoded}>`,
+        element
+      }
+    }
+    case "TupleType": {
+      const elements = (codec as t.TupleC<[t.Mixed]>).types.map(type =>
+        describeType(type, parents)
+      )
+      return {
+        kind: "tuple",
+        type: codec.name,
+        encoded: `[${elements.map(({ encoded }) => encoded).join(", ")}]`,
+        elements
+      }
+    }
+    case "DictionaryType": {
+      const { domain, codomain } = codec as t.RecordC<t.Mixed, t.Mixed>
+      const key = describeType(domain, parents)
+      const element = describeType(codomain, parents)
+      return {
+        kind: "record",
+        type: codec.name,
+        encoded: `{ [K in ${key.encoded}]: ${element.encoded} }`,
+        key,
+        element
+      }
+    }
+    case "InterfaceType":
+    case "StrictType":
+    case "PartialType":
+    case "IntersectionType": {
+      if (codec._tag === "IntersectionType" && !hasProps(codec)) {
+        const members = (
+          codec as t.IntersectionC<[t.Mixed, t.Mixed]>
+        ).types.map(type => describeType(type, parents))
+        return {
+          kind: "intersection",
+          type: codec.name,
+          encoded: members.map(({ encoded }) => encoded).join(" & "),
+          members
+        }
+      }
+
+      const fields = fieldsOf(codec as t.HasProps, parents)
+      return {
+        kind: "object",
+        type: codec.name,
+        encoded: `{ ${fields
+          .map(
+            ({ name, required, encoded }) =>
+              `${name}${required ? "" : "?"}: ${encoded}`
+          )
+          .join(", ")} }`,
+        fields
+      }
+    }
+    case "UnionType": {
+      const members = (codec as t.UnionC<[t.Mixed, t.Mixed]>).types.map(type =>
+        describeType(type, parents)
+      )
+      const encoded = members.map(({ encoded }) => encoded).join(" | ")
+
+      // Unions of literals are enums
+      if (members.every(({ kind }) => kind === "literal"))
+        return {
+          kind: "enum",
+          type: codec.name,
+          encoded,
+          options: members.flatMap(({ options = [] }) => options)
+        }
+
+      return { kind: "union", type: codec.name, encoded, members }
+    }
+    case "RecursiveType": {
+      if (parents.has(codec))
+        return { kind: "unknown", type: codec.name, encoded: codec.name }
+
+      const descriptor = describeType(
+        (codec as t.RecursiveType<t.Any>).type,
+        new Set([...parents, codec])
+      )
+      return { ...descriptor, type: codec.name }
+    }
+  }
+
+  if (codec.name in NAMED_DESCRIPTORS)
+    return { ...NAMED_DESCRIPTORS[codec.name] }
+
+  // `t.nonEmptyArray` and `t.readonlyNonEmptyArray`
+  const item = (codec as t.Any & { type?: t.Any }).type
+  if (/^(Readonly)?NonEmptyArray</.test(codec.name) && item) {
+    const element = describeType(item, parents)
+    const wrapper = codec.name.startsWith("Readonly")
+      ? "ReadonlyArray"
+      : "Array"
+    return {
+      kind: "array",
+      type: codec.name,
+      encoded: `${wrapper}<${element.encoded}>`,
+      element
+    }
+  }
+
+  // Unknown codecs, `t.unknown` and `t.any` accept any value
+  return { kind: "unknown", type: codec.name, encoded: codec.name }
+}
+
+function fieldsOf(
+  codec: t.HasProps | t.ExactC<t.HasProps>,
+  parents: Set<unknown>
+): FieldDescriptor[] {
+  const { required, optional } = partitionProps(codec)
+
+  return [
+    ...Object.entries(required).map(([name, type]) => ({
+      name,
+      // Fields accepting `undefined` may be omitted
+      required: !type.is(undefined),
+      ...describeType(type, parents)
+    })),
+    ...Object.entries(optional).map(([name, type]) => ({
+      name,
+      required: false,
+      ...describeType(type, parents)
+    }))
+  ]
+}
+
+function hasProps(codec: t.Any & { _tag?: string }): boolean {
+  switch (codec._tag) {
+    case "InterfaceType":
+    case "StrictType":
+    case "PartialType":
+      return true
+    case "RefinementType":
+    case "ReadonlyType":
+    case "ExactType":
+      return hasProps((codec as t.RefinementC<t.Any>).type)
+    case "IntersectionType":
+      return (codec as t.IntersectionC<[t.Mixed, t.Mixed]>).types.every(
+        hasProps
+      )
+  }
+
+  return false
+}
@@ -0,0 +1,72 @@
+/**
+ * Changed value between two encoded values.
+ */
+export interface Change {
+  /**
+   * Location of the changed value, e.g. `["address", "lines", 0]`. Empty for the root value.
+   */
+  path: Array<string | number>
+  /**
+   * Value before the change, `undefined` if the value was added.
+   */
+  before: unknown
+  /**
+   * Value after the change, `undefined` if the value was removed.
+   */
+  after: unknown
+}
+
+/**
+ * Deeply compares two encoded values. Properties set to `undefined` are treated as missing.
+ */
+export function equals(left: unknown, right: unknown): boolean {
+  return diff(left, right).length === 0
+}
+
+/**
+ * Lists the changed paths between two encoded values. Arrays are compared by index, so inserting
+ * an element changes all following elements.
+ *
+ * @param before - Value before the change
+ * @param after - Value after the change
+ */
+export function diff(before: unknown, after: unknown): Change[] {
+  return diffAt(before, after, [])
+}
+
+function diffAt(
+  before: unknown,
+  after: unknown,
+  path: Array<string | number>
+): Change[] {
+  if (before === after) return []
+
+  if (Array.isArray(before) && Array.isArray(after))
+    return Array.from(
+      { length: Math.max(before.length, after.length) },
+      (_, index) => diffAt(before[index], after[index], [...path, index])
+    ).flat()
+
+  if (isPlainObject(before) && isPlainObject(after))
+    return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .sort()
+      .flatMap(key => diffAt(before[key], after[key], [...path, key]))
+
+  if (
+    before instanceof Date &&
+    after instanceof Date &&
+    before.getTime() === after.getTime()
+  )
+    return []
+
+  return [{ path, before, after }]
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  )
+}
@@ -0,0 +1,164 @@
+import * as t from "io-ts"
+import { ModelConstructor, deepCopy } from "./utils"
+
+type ValuesOf<M extends ModelConstructor> = t.TypeOf<M["_codec"]>
+
+/**
+ * Field values of a factory, either static values or functions receiving the sequence number of
+ * the built instance.
+ */
+export type FactoryAttributes<M extends ModelConstructor> = {
+  [K in keyof ValuesOf<M>]?: ValuesOf<M>[K] | ((n: number) => ValuesOf<M>[K])
+}
+
+export interface FactoryDefinition<
+  M extends ModelConstructor,
+  T extends string = never
+> {
+  defaults?: FactoryAttributes<M>
+
+  /**
+   * Fields that must be unique across instances, e.g. `{ email: n => \`user${n}@example.com\` }`.
+   */
+  sequences?: { [K in keyof ValuesOf<M>]?: (n: number) => ValuesOf<M>[K] }
+
+  /**
+   * Named sets of attributes applied on top of the defaults and sequences, e.g. `admin`.
+   */
+  traits?: { [name in T]: FactoryAttributes<M> }
+}
+
+/**
+ * Target of `Factory.seed`, e.g. the `Sandbox` of `@model-ts/dynamodb`.
+ */
+export interface Seedable {
+  seed(...items: Array<{ [key: string]: any }>): Promise<void>
+}
+
+/**
+ * Builds instances of a model for tests. Use `defineFactory` to create a factory.
+ */
+export class Factory<M extends ModelConstructor, T extends string = never> {
+  private _sequence = 0
+
+  constructor(
+    readonly model: M,
+    private readonly definition: FactoryDefinition<M, T> = {}
+  ) {}
+
+  /**
+   * Builds an instance from the defaults, sequences and the given traits, replacing fields with
+   * the given overrides. The resulting values are validated through the model's codec.
+   *
+   * @param overrides - Fields to be replaced
+   * @param traits - Traits to be applied, in order
+   * @throws {RuntimeTypeValidationError} Resulting values can't be decoded using the model's codec.
+   */
+  build(overrides: Partial<ValuesOf<M>> = {}, ...traits: T[]): InstanceType<M> {
+    const n = ++this._sequence
+    const {
+      defaults = {},
+      sequences = {},
+      traits: definedTraits
+    } = this.definition
+    const resolve = (attributes: FactoryAttributes<M>) =>
+      Object.fromEntries(
+        Object.entries(attributes).map(([key, value]) => [
+          key,
+          // Static values are copied, so that instances don't share nested values
+          typeof value === "function" ? value(n) : deepCopy(value)
+        ])
+      )
+
+    const values = Object.assign(
+      resolve(defaults),
+      resolve(sequences),
+      ...traits.map(trait => {
+        if (!definedTraits?.[trait])
+          throw new Error(
+            `Factory of model ${this.model._tag} has no trait ${trait}.`
+          )
+
+        return resolve(definedTraits[trait])
+      }),
+      overrides
+    )
+
+    return this.model.from(
+      Object.fromEntries(
+        Object.entries(values).map(([key, value]) => [
+          key,
+          this.model.encodeProp(key, value)
+        ])
+      )
+    )
+  }
+
+  /**
+   * Builds the given number of instances.
+   *
+   * @param count - Number of instances
+   * @param overrides - Fields to be replaced in all instances
+   * @param traits - Traits to be applied, in order
+   */
+  buildMany(
+    count: number,
+    overrides?: Partial<ValuesOf<M>>,
+    ...traits: T[]
+  ): Array<InstanceType<M>> {
+    return Array.from({ length: count }, () => this.build(overrides, ...traits))
+  }
+
+  /**
+   * Builds the given number of instances and persists them, e.g. via `Sandbox.seed`.
+   *
+   * @param target - Target to persist the instances with
+   * @param count - Number of instances
+   * @param overrides - Fields to be replaced in all instances
+   * @param traits - Traits to be applied, in order
+   */
+  async seed(
+    target: Seedable,
+    count: number,
+    overrides?: Partial<ValuesOf<M>>,
+    ...traits: T[]
+  ): Promise<Array<InstanceType<M>>> {
+    const instances = this.buildMany(count, overrides, ...traits)
+    await target.seed(...instances)
+
+    return instances
+  }
+
+  /**
+   * Resets the sequence number, e.g. in `beforeEach`.
+   */
+  reset() {
+    this._sequence = 0
+  }
+}
+
+/**
+ * Defines a factory building instances of the given model for tests.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const userFactory = defineFactory(User, {
+ *   defaults: { name: "Jane", role: "member" },
+ *   sequences: { email: n => `user${n}@example.com` },
+ *   traits: { admin: { role: "admin" } }
+ * })
+ *
+ * userFactory.build() // -> User { name: "Jane", role: "member", email: "user1@example.com" }
+ * userFactory.build({ name: "John" }, "admin") // -> User { name: "John", role: "admin", ... }
+ * ```
+ *
+ * @param model - Model to build instances of
+ * @param definition - Defaults, sequences and traits
+ */
+export function defineFactory<
+  M extends ModelConstructor,
+  T extends string = never
+>(model: M, definition?: FactoryDefinition<M, T>): Factory<M, T> {
+  return new Factory(model, definition)
+}
@@ -0,0 +1,327 @@
+import * as t from "io-ts"
+import { AnyModel } from "./model"
+import { Union } from "./union"
+import { isModel, isUnion, partitionProps } from "./utils"
+
+export interface GraphQLSDLOptions {
+  /**
+   * Models and unions to generate object and union types for. Nested models are included
+   * automatically.
+   */
+  types?: Array<AnyModel | Union>
+
+  /**
+   * Models to generate input types for, named `<Tag>Input`.
+   */
+  inputs?: AnyModel[]
+
+  /**
+   * Models and unions to generate Relay connection types for, named `<Name>Connection` and
+   * `<Name>Edge`, matching `PaginationResult` of `@model-ts/dynamodb`.
+   */
+  connections?: Array<AnyModel | Union>
+}
+
+/**
+ * GraphQL types of the curated io-ts-types codecs exposed through `t`, describing their decoded
+ * representation.
+ */
+const NAMED_TYPES: { [name: string]: string } = {
+  BigIntFromString: "BigInt",
+  BooleanFromNumber: "Boolean",
+  BooleanFromString: "Boolean",
+  DateFromISOString: "DateTime",
+  DateFromNumber: "DateTime",
+  DateFromUnixTime: "DateTime",
+  IntFromString: "Int",
+  JsonFromString: "JSON",
+  NumberFromString: "Float"
+}
+
+const BUILT_IN_SCALARS = new Set(["String", "Int", "Float", "Boolean", "ID"])
+
+const PAGE_INFO = `type PageInfo {
+  hasPreviousPage: Boolean!
+  hasNextPage: Boolean!
+  startCursor: String
+  endCursor: String
+}`
+
+/**
+ * Generates GraphQL SDL type definitions from models and unions.
+ *
+ * Models are mapped to object types named by their tag, unions to union types named by their class
+ * name. Custom scalars (`DateTime`, `BigInt`, `JSON`) are declared as needed. Use `resolveType` to
+ * resolve union members in `__resolveType`.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class A extends model("A", t.type({ a: t.string })) {}
+ * class B extends model("B", t.type({ b: t.Int })) {}
+ * class AOrB extends union([A, B]) {}
+ *
+ * toGraphQLSDL({ types: [AOrB], inputs: [A], connections: [AOrB] })
+ * // -> union AOrB = A | B
+ * //
+ * //    type A {
+ * //      a: String!
+ * //    }
+ * //    ...
+ * ```
+ *
+ * @param options - Types to generate definitions for.
+ */
+export function toGraphQLSDL({
+  types = [],
+  inputs = [],
+  connections = []
+}: GraphQLSDLOptions): string {
+  const scalars = new Set<string>()
+  const definitions = new Map<string, string>()
+  const sources = new Map<string, unknown>()
+  const enums = new Map<t.Any, string>()
+
+  /**
+   * Registers a definition, reserving the name first to resolve recursive references.
+   *
+   * @throws {Error} The name is already used for a different type, e.g. for unnamed unions.
+   */
+  const define = (name: string, source: unknown, build: () => string) => {
+    if (definitions.has(name)) {
+      if (sources.get(name) !== source)
+        throw new Error(
+          `Can't generate GraphQL type ${name} for different types, e.g. unnamed unions. Name unions by extending them.`
+        )
+
+      return name
+    }
+    sources.set(name, source)
+    definitions.set(name, "")
+    definitions.set(name, build())
+    return name
+  }
+
+  const scalar = (name: string) => {
+    if (!BUILT_IN_SCALARS.has(name)) scalars.add(name)
+    return name
+  }
+
+  const fields = (codec: t.Any, name: string, input: boolean) => {
+    const { required, optional } = partitionProps(codec as t.HasProps)
+    const entries = [
+      ...Object.entries(required).map(([key, type]) => [key, type, true]),
+      ...Object.entries(optional).map(([key, type]) => [key, type, false])
+    ] as Array<[string, t.Any, boolean]>
+
+    return entries
+      .map(
+        ([key, type, isRequired]) =>
+          `  ${key}: ${fieldType(type, name + pascalCase(key), input)}${
+            isRequired && !isNullable(type) ? "!" : ""
+          }`
+      )
+      .join("\n")
+  }
+
+  /**
+   * Object and input types require at least one field.
+   */
+  const block = (keyword: string, name: string, lines: string[]) => {
+    const body = lines.filter(Boolean)
+    if (!body.length)
+      throw new Error(
+        `Can't generate GraphQL ${keyword} ${name} without fields.`
+      )
+
+    return `${keyword} ${name} {\n${body.join("\n")}\n}`
+  }
+
+  const objectType = (codec: t.Any, name: string, computed: string[] = []) =>
+    define(name, codec, () =>
+      block("type", name, [
+        fields(codec, name, false),
+        // Types of computed fields aren't known
+        ...computed.map(key => `  ${key}: ${scalar("JSON")}`)
+      ])
+    )
+
+  const modelType = (model: AnyModel) =>
+    objectType(model._codec, model._tag, model._computed)
+
+  const inputType = (codec: t.Any, name: string) =>
+    define(name, codec, () => block("input", name, [fields(codec, name, true)]))
+
+  const unionType = (codec: t.Any, models: AnyModel[], name: string) =>
+    define(
+      name,
+      codec,
+      () => `union ${name} = ${models.map(modelType).join(" | ")}`
+    )
+
+  const enumType = (codec: t.Any, values: string[], name: string) => {
+    if (!values.every(isValidName)) return "String"
+
+    // Enums are valid in input and output types, so codecs used in both share an enum
+    const existing = enums.get(codec)
+    if (existing) return existing
+
+    enums.set(codec, name)
+    return define(
+      name,
+      codec,
+      () => `enum ${name} {\n  ${values.join("\n  ")}\n}`
+    )
+  }
+
+  /**
+   * Maps a codec to a GraphQL type reference (without non-null modifier).
+   *
+   * @param codec - Codec to be mapped
+   * @param name - Name used for anonymous object, enum and union types
+   * @param input - Whether an input type is being generated
+   */
+  const fieldType = (codec: t.Any, name: string, input: boolean): string => {
+    if (isUnion(codec))
+      return input
+        ? scalar("JSON")
+        : unionType(codec._codec, codec._models, codec.name)
+    if (isModel(codec))
+      return input
+        ? inputType(codec._codec, `${codec._tag}Input`)
+        : modelType(codec)
+
+    const type = codec as t.Any & { _tag?: string }
+
+    switch (type._tag) {
+      case "StringType":
+        return "String"
+      case "NumberType":
+        return "Float"
+      case "BooleanType":
+        return "Boolean"
+      case "RefinementType":
+        if (codec.name === "Int") return "Int"
+        return fieldType((codec as t.RefinementC<t.Any>).type, name, input)
+      case "ReadonlyType":
+        return fieldType((codec as t.ReadonlyC<t.Any>).type, name, input)
+      case "RecursiveType":
+        // Use the name of the recursive codec to resolve recursive references
+        return fieldType(
+          (codec as t.RecursiveType<t.Any>).type,
+          codec.name,
+          input
+        )
+      case "LiteralType": {
+        const { value } = codec as t.LiteralC<string | number | boolean>
+        if (typeof value === "string") return "String"
+        if (typeof value === "boolean") return "Boolean"
+        return Number.isInteger(value) ? "Int" : "Float"
+      }
+      case "KeyofType":
+        return enumType(codec, Object.keys((codec as t.KeyofC<any>).keys), name)
+      case "ArrayType":
+      case "ReadonlyArrayType": {
+        const item = (codec as t.ArrayC<t.Any>).type
+        return `[${fieldType(item, name, input)}${isNullable(item) ? "" : "!"}]`
+      }
+      case "InterfaceType":
+      case "StrictType":
+      case "PartialType":
+      case "ExactType":
+      case "IntersectionType":
+        return input
+          ? inputType(codec, `${name}Input`)
+          : objectType(codec, name)
+      case "UnionType": {
+        const members = (codec as t.UnionC<[t.Mixed, t.Mixed]>).types.filter(
+          member => !member.is(null) && !member.is(undefined)
+        )
+
+        if (members.length === 1) return fieldType(members[0], name, input)
+        if (members.every(member => (member as any)._tag === "LiteralType"))
+          return members.every(
+            member => typeof (member as t.LiteralC<any>).value === "string"
+          )
+            ? enumType(
+                codec,
+                members.map(member => (member as t.LiteralC<string>).value),
+                name
+              )
+            : scalar("JSON")
+        if (!input && members.every(member => isModel(member)))
+          return unionType(codec, members as AnyModel[], name)
+
+        return scalar("JSON")
+      }
+    }
+
+    if (codec.name in NAMED_TYPES) return scalar(NAMED_TYPES[codec.name])
+
+    // `t.nonEmptyArray` and `t.readonlyNonEmptyArray`
+    const item = (codec as t.Any & { type?: t.Any }).type
+    if (/^(Readonly)?NonEmptyArray</.test(codec.name) && item)
+      return `[${fieldType(item, name, input)}${isNullable(item) ? "" : "!"}]`
+
+    // Records, tuples, `t.unknown`, `t.any` and unknown codecs
+    return scalar("JSON")
+  }
+
+  types.forEach(type =>
+    isUnion(type)
+      ? unionType(type._codec, type._models, type.name)
+      : modelType(type)
+  )
+
+  inputs.forEach(model => inputType(model._codec, `${model._tag}Input`))
+
+  if (connections.length) definitions.set("PageInfo", PAGE_INFO)
+
+  connections.forEach(type => {
+    const node = fieldType(type, type.name, false)
+
+    define(
+      `${node}Edge`,
+      node,
+      () => `type ${node}Edge {\n  node: ${node}!\n  cursor: String!\n}`
+    )
+    define(
+      `${node}Connection`,
+      node,
+      () =>
+        `type ${node}Connection {\n  edges: [${node}Edge!]!\n  pageInfo: PageInfo!\n}`
+    )
+  })
+
+  return [
+    ...Array.from(scalars).map(name => `scalar ${name}`),
+    ...definitions.values()
+  ].join("\n\n")
+}
+
+/**
+ * Resolves the GraphQL type name of a union member, intended to be used as `__resolveType`.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const resolvers = {
+ *   SearchResult: { __resolveType: resolveType }
+ * }
+ * ```
+ */
+export function resolveType(value: { _tag: string }): string {
+  return value._tag
+}
+
+function isNullable(codec: t.Any) {
+  return codec.is(null) || codec.is(undefined)
+}
+
+function isValidName(name: string) {
+  return /^[_A-Za-z][_0-9A-Za-z]*$/.test(name)
+}
+
+function pascalCase(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
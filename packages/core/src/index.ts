@@ -6,3 +6,15 @@ export * from "./decorators"
 export * from "./provider"
 export * from "./runtime-type-validation-error"
 export * from "./utils"
+export * from "./migration"
+export * from "./invariant"
+export * from "./json-schema"
+export * from "./graphql"
+export * from "./registry"
+export * from "./arbitrary"
+export * from "./factory"
+export * from "./diff"
+export * from "./redact"
+export * from "./describe"
+export * from "./standard-schema"
+export * from "./context"
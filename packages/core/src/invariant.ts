@@ -0,0 +1,62 @@
+import * as t from "io-ts"
+
+/**
+ * Rule spanning multiple fields of a model, e.g. "endDate must be after startDate".
+ */
+export interface Invariant<A = any> {
+  /**
+   * Returns whether the decoded values satisfy the invariant. Exceptions are reported as
+   * violations as well.
+   */
+  check: (values: A) => boolean
+  message: string
+  /**
+   * Location the violation is reported at, e.g. `["endDate"]`. Defaults to the root value.
+   */
+  path?: Array<string | number>
+}
+
+/**
+ * Checks decoded values against all invariants, reporting every violation.
+ *
+ * @param value - Decoded values
+ * @param invariants - Invariants to be checked
+ * @param props - Props of the model's codec, used to describe the reported fields
+ * @param context - io-ts validation context used for reporting failures
+ */
+export function checkInvariants<A>(
+  value: A,
+  invariants: ReadonlyArray<Invariant<A>>,
+  props: t.Props,
+  context: t.Context
+): t.Validation<A> {
+  const errors: t.Errors = invariants.flatMap(
+    ({ check, message, path = [] }) => {
+      let reported = message
+      try {
+        if (check(value)) return []
+      } catch (error) {
+        // Exceptions of checks are reported like violations
+        reported = `Invariant "${message}" failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      }
+
+      let actual: any = value
+      const entries = path.map((key, index) => {
+        actual = actual?.[key]
+        return {
+          key: String(key),
+          type: (index === 0 && props[key]) || t.unknown,
+          actual
+        }
+      })
+
+      return [
+        { value: actual, context: [...context, ...entries], message: reported }
+      ]
+    }
+  )
+
+  return errors.length ? t.failures(errors) : t.success(value)
+}
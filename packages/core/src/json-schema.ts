@@ -0,0 +1,360 @@
+import * as t from "io-ts"
+import { Format, formatOf } from "./codecs"
+import { AnyModel } from "./model"
+import { Union } from "./union"
+import { isModel, isUnion, partitionProps } from "./utils"
+
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema"
+
+export type JSONSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null"
+
+export interface JSONSchema {
+  $schema?: string
+  $ref?: string
+  $defs?: { [name: string]: JSONSchema }
+  type?: JSONSchemaType
+  format?: string
+  readOnly?: boolean
+  const?: unknown
+  enum?: unknown[]
+  properties?: { [key: string]: JSONSchema }
+  required?: string[]
+  additionalProperties?: boolean | JSONSchema
+  propertyNames?: JSONSchema
+  items?: boolean | JSONSchema
+  prefixItems?: JSONSchema[]
+  minItems?: number
+  maxItems?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minimum?: number
+  anyOf?: JSONSchema[]
+  oneOf?: JSONSchema[]
+  allOf?: JSONSchema[]
+  not?: JSONSchema
+}
+
+type Definitions = { [name: string]: JSONSchema }
+
+/**
+ * Schemas of the curated io-ts-types codecs exposed through `t`, describing their encoded
+ * representation.
+ */
+const NAMED_SCHEMAS: { [name: string]: JSONSchema } = {
+  BigIntFromString: { type: "string", format: "bigint" },
+  BooleanFromNumber: { type: "number" },
+  BooleanFromString: { type: "string", enum: ["true", "false"] },
+  DateFromISOString: { type: "string", format: "date-time" },
+  DateFromNumber: { type: "number", format: "unix-time-ms" },
+  DateFromUnixTime: { type: "integer", format: "unix-time" },
+  IntFromString: { type: "string", format: "integer" },
+  JsonFromString: { type: "string", format: "json" },
+  NumberFromString: { type: "string", format: "number" }
+}
+
+/**
+ * Schemas of the domain codecs exposed through `t`, by their format.
+ */
+function formatSchema(format: Format): JSONSchema {
+  switch (format.kind) {
+    case "UUID":
+      return { type: "string", format: "uuid" }
+    case "ULID":
+      return { type: "string", pattern: "^[0-7][0-9A-HJKMNP-TV-Z]{25}$" }
+    case "KSUID":
+      return { type: "string", pattern: "^[0-9A-Za-z]{27}$" }
+    case "Email":
+      return { type: "string", format: "email" }
+    case "URL":
+      return { type: "string", format: "uri" }
+    case "ISODate":
+      return { type: "string", format: "date" }
+    case "ISODuration":
+      return { type: "string", format: "duration" }
+    case "Int":
+      return { type: "integer", minimum: format.minimum }
+    case "DecimalString":
+      return {
+        type: "string",
+        pattern:
+          format.scale > 0 ? `^-?\\d+(\\.\\d{1,${format.scale}})?$` : "^-?\\d+$"
+      }
+    case "BoundedString":
+      return { type: "string", minLength: format.min, maxLength: format.max }
+  }
+}
+
+/**
+ * Generates a JSON Schema (draft 2020-12) describing the encoded representation of the given
+ * model, union or io-ts codec, i.e. the output of `encode()`.
+ *
+ * Models are emitted as `$defs` entries named by their tag and referenced via `$ref`, including
+ * the `_tag` discriminator (and `_version` for versioned models). Unions are emitted as `oneOf`
+ * their member models.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class A extends model("A", t.type({ a: t.string })) {}
+ *
+ * toJSONSchema(A)
+ * // -> {
+ * //   $schema: "https://json-schema.org/draft/2020-12/schema",
+ * //   $ref: "#/$defs/A",
+ * //   $defs: { A: { type: "object", properties: { _tag: { const: "A" }, a: { type: "string" } }, ... } }
+ * // }
+ * ```
+ *
+ * @param codec - Model, union or io-ts codec to describe.
+ */
+export function toJSONSchema(codec: AnyModel | Union | t.Any): JSONSchema {
+  const defs: Definitions = {}
+  const schema = schemaOf(codec, defs)
+
+  return Object.keys(defs).length
+    ? { $schema: JSON_SCHEMA_DIALECT, ...schema, $defs: defs }
+    : { $schema: JSON_SCHEMA_DIALECT, ...schema }
+}
+
+function schemaOf(codec: t.Any, defs: Definitions): JSONSchema {
+  if (isUnion(codec))
+    return { oneOf: codec._models.map(model => modelSchema(model, defs)) }
+  if (isModel(codec)) return modelSchema(codec, defs)
+
+  const format = formatOf(codec)
+  if (format) return formatSchema(format)
+
+  const type = codec as t.Any & { _tag?: string }
+
+  switch (type._tag) {
+    case "StringType":
+      return { type: "string" }
+    case "NumberType":
+      return { type: "number" }
+    case "BooleanType":
+      return { type: "boolean" }
+    case "NullType":
+      return { type: "null" }
+    case "UndefinedType":
+    case "VoidType":
+    case "NeverType":
+      return { not: {} }
+    case "AnyArrayType":
+      return { type: "array" }
+    case "AnyDictionaryType":
+    case "ObjectType":
+      return { type: "object" }
+    case "LiteralType":
+      return { const: (codec as t.LiteralC<any>).value }
+    case "KeyofType":
+      return {
+        type: "string",
+        enum: Object.keys((codec as t.KeyofC<any>).keys)
+      }
+    case "RefinementType": {
+      if (codec.name === "Int") return { type: "integer" }
+      if (codec.name === "NonEmptyString")
+        return { type: "string", minLength: 1 }
+
+      return schemaOf((codec as t.RefinementC<t.Any>).type, defs)
+    }
+    case "ReadonlyType":
+      return schemaOf((codec as t.ReadonlyC<t.Any>).type, defs)
+    case "ArrayType":
+    case "ReadonlyArrayType":
+      return {
+        type: "array",
+        items: schemaOf((codec as t.ArrayC<t.Any>).type, defs)
+      }
+    case "TupleType": {
+      const types = (codec as t.TupleC<[t.Mixed]>).types
+      return {
+        type: "array",
+        prefixItems: types.map(type => schemaOf(type, defs)),
+        items: false,
+        minItems: types.length,
+        maxItems: types.length
+      }
+    }
+    case "InterfaceType":
+    case "StrictType":
+    case "PartialType": {
+      const props: t.Props = (codec as t.TypeC<t.Props>).props
+      const required =
+        type._tag === "PartialType"
+          ? []
+          : // Properties accepting `undefined` may be omitted
+            Object.keys(props).filter(key => !props[key].is(undefined))
+
+      return {
+        type: "object",
+        properties: mapProps(props, defs),
+        ...(required.length ? { required } : {}),
+        ...(type._tag === "StrictType" ? { additionalProperties: false } : {})
+      }
+    }
+    case "ExactType": {
+      const schema = schemaOf((codec as t.ExactC<t.HasProps>).type, defs)
+      return schema.type === "object"
+        ? { ...schema, additionalProperties: false }
+        : schema
+    }
+    case "IntersectionType":
+      return intersectionSchema(
+        (codec as t.IntersectionC<[t.Mixed, t.Mixed]>).types.map(type =>
+          schemaOf(type, defs)
+        )
+      )
+    case "UnionType":
+      return unionSchema(
+        (codec as t.UnionC<[t.Mixed, t.Mixed]>).types.map(type =>
+          schemaOf(type, defs)
+        )
+      )
+    case "DictionaryType": {
+      const { domain, codomain } = codec as t.RecordC<t.Mixed, t.Mixed>
+      const keys = schemaOf(domain, defs)
+      const values = schemaOf(codomain, defs)
+
+      if (keys.type === "string" && !keys.enum)
+        return { type: "object", additionalProperties: values }
+
+      // Records with a finite domain require all keys to be present
+      if (keys.enum)
+        return {
+          type: "object",
+          properties: Object.fromEntries(
+            keys.enum.map(key => [String(key), values])
+          ),
+          required: keys.enum.map(String)
+        }
+
+      return {
+        type: "object",
+        propertyNames: keys,
+        additionalProperties: values
+      }
+    }
+    case "RecursiveType": {
+      const ref = { $ref: `#/$defs/${codec.name}` }
+      if (codec.name in defs) return ref
+
+      // Register a placeholder to resolve recursive references
+      defs[codec.name] = {}
+      defs[codec.name] = schemaOf((codec as t.RecursiveType<t.Any>).type, defs)
+
+      return ref
+    }
+  }
+
+  if (codec.name in NAMED_SCHEMAS) return { ...NAMED_SCHEMAS[codec.name] }
+
+  // `t.nonEmptyArray` and `t.readonlyNonEmptyArray`
+  if (/^(Readonly)?NonEmptyArray</.test(codec.name)) {
+    const item = (codec as t.Any & { type?: t.Any }).type
+    return item
+      ? { type: "array", items: schemaOf(item, defs), minItems: 1 }
+      : { type: "array", minItems: 1 }
+  }
+
+  // Unknown codecs, `t.unknown` and `t.any` accept any value
+  return {}
+}
+
+function modelSchema(model: AnyModel, defs: Definitions): JSONSchema {
+  const ref = { $ref: `#/$defs/${model._tag}` }
+  if (model._tag in defs) return ref
+
+  // Register a placeholder to resolve recursive references
+  defs[model._tag] = {}
+
+  const schema = schemaOf(model._codec, defs)
+  const { required, optional } = partitionProps(model._codec)
+  const tagged: JSONSchema = {
+    type: "object",
+    properties: {
+      _tag: { const: model._tag },
+      ...(model._version === undefined
+        ? {}
+        : { _version: { const: model._version } }),
+      // Legacy names still written along renamed fields
+      ...Object.fromEntries(
+        Object.entries(model._aliases)
+          .filter(([, { write }]) => write)
+          .map(([key, { from }]) => [
+            from[0],
+            schemaOf({ ...required, ...optional }[key], defs)
+          ])
+      ),
+      // Computed fields are part of the encoded output, but can't be provided
+      ...Object.fromEntries(
+        model._computed.map(key => [key, { readOnly: true }])
+      )
+    },
+    required: model._version === undefined ? ["_tag"] : ["_tag", "_version"]
+  }
+
+  defs[model._tag] = intersectionSchema([tagged, schema])
+
+  return ref
+}
+
+function mapProps(props: t.Props, defs: Definitions) {
+  return Object.fromEntries(
+    Object.entries(props).map(([key, type]) => [key, schemaOf(type, defs)])
+  )
+}
+
+/**
+ * Merges object schemas into a single object schema if possible, otherwise falls back to `allOf`.
+ */
+function intersectionSchema(schemas: JSONSchema[]): JSONSchema {
+  const mergeable = schemas.every(
+    schema =>
+      schema.type === "object" &&
+      Object.keys(schema).every(key =>
+        ["type", "properties", "required", "additionalProperties"].includes(key)
+      ) &&
+      (schema.additionalProperties === undefined ||
+        schema.additionalProperties === false)
+  )
+
+  if (!mergeable) return { allOf: schemas }
+
+  const closed = schemas.some(schema => schema.additionalProperties === false)
+  const required = Array.from(
+    new Set(schemas.flatMap(schema => schema.required ?? []))
+  )
+
+  return {
+    type: "object",
+    properties: Object.assign({}, ...schemas.map(s => s.properties ?? {})),
+    ...(required.length ? { required } : {}),
+    ...(closed ? { additionalProperties: false } : {})
+  }
+}
+
+/**
+ * Collapses unions of constants into `enum` and omits `undefined` members, since they only
+ * describe optional properties.
+ */
+function unionSchema(schemas: JSONSchema[]): JSONSchema {
+  const members = schemas.filter(
+    schema => !(schema.not && Object.keys(schema.not).length === 0)
+  )
+
+  if (members.length === 1) return members[0]
+  if (members.length && members.every(schema => "const" in schema))
+    return { enum: members.map(schema => schema.const) }
+
+  return { anyOf: members }
+}
@@ -0,0 +1,73 @@
+import * as t from "io-ts"
+
+/**
+ * Upgrades an encoded value by exactly one schema version.
+ */
+export type Migration = (value: any) => any
+
+/**
+ * Applies all migrations required to bring an encoded value to the given version.
+ *
+ * Values without a `_version` field are treated as version 1. Non-object values are passed through
+ * unchanged and left to the codec to reject.
+ *
+ * @param value - Encoded value to be upgraded
+ * @param version - Current version of the model
+ * @param migrations - Ordered chain of migrations, `migrations[0]` upgrades from version 1 to 2
+ * @param context - io-ts validation context used for reporting failures
+ */
+export function migrate(
+  value: unknown,
+  version: number,
+  migrations: ReadonlyArray<Migration>,
+  context: t.Context
+): t.Validation<unknown> {
+  if (typeof value !== "object" || value === null) return t.success(value)
+
+  const from = (value as any)._version ?? 1
+
+  if (!Number.isInteger(from) || from < 1 || from > version)
+    return t.failure(
+      value,
+      context,
+      `Unsupported version ${from}, expected a version between 1 and ${version}`
+    )
+
+  let migrated = value
+  for (let current = from; current < version; current++) {
+    try {
+      migrated = migrations[current - 1](migrated)
+    } catch (error) {
+      return t.failure(
+        migrated,
+        context,
+        `Migration from version ${current} to ${current + 1} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+
+  return t.success(migrated)
+}
+
+/**
+ * Ensures that the migration chain covers all versions up to the given version.
+ *
+ * @throws {Error} Migration chain doesn't match the version.
+ */
+export function assertMigrations(
+  tag: string,
+  version: number,
+  migrations: ReadonlyArray<Migration>
+) {
+  if (!Number.isInteger(version) || version < 1)
+    throw new Error(`Model ${tag} must have a positive integer version.`)
+
+  if (migrations.length !== version - 1)
+    throw new Error(
+      `Model ${tag} is at version ${version} and requires ${
+        version - 1
+      } migration(s), received ${migrations.length}.`
+    )
+}
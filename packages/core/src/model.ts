@@ -1,30 +1,220 @@
 import * as t from "io-ts"
 import { either, isLeft } from "fp-ts/lib/Either"
-import { Provider, InstanceProps, ClassProps } from "./provider"
-import { ModelConstructor, encodeProp, getProps } from "./utils"
+import {
+  Provider,
+  ProviderHooks,
+  InstanceProps,
+  ClassProps,
+  isProvider
+} from "./provider"
+import {
+  ModelConstructor,
+  deepCopy,
+  encodeProp,
+  getProps,
+  isModel,
+  partitionProps
+} from "./utils"
 import { RuntimeTypeValidationError } from "./runtime-type-validation-error"
+import { Migration, assertMigrations, migrate } from "./migration"
+import { Invariant, checkInvariants } from "./invariant"
+import { Change, diff, equals } from "./diff"
+import { redact } from "./redact"
+import { ModelDescriptor, describe } from "./describe"
+import { StandardSchemaV1, standardSchemaOf } from "./standard-schema"
+
+export interface ModelOptions<C extends t.HasProps = any> {
+  /**
+   * Current schema version of the model. Encoded values are stamped with `_version` and decoded
+   * values are upgraded through `migrations` before being validated by the codec.
+   *
+   * Values without a `_version` field are treated as version 1.
+   */
+  version?: number
+
+  /**
+   * Ordered chain of migrations, where `migrations[0]` upgrades an encoded value from version 1 to
+   * version 2, `migrations[1]` from version 2 to version 3 and so on.
+   *
+   * Requires exactly `version - 1` migrations.
+   */
+  migrations?: Migration[]
+
+  /**
+   * Makes the codec fields of constructed instances read-only and deeply freezes their values, so
+   * accidental mutations throw. Use `with()` to derive modified instances instead.
+   */
+  freeze?: boolean
+
+  /**
+   * Default values of fields, either static values or factories such as `() => new Date()`. Missing
+   * fields are set to their default when decoding and constructing instances.
+   */
+  defaults?: Defaults<C>
+
+  /**
+   * Fields derived from the other fields of an instance. Computed fields are exposed as read-only
+   * properties on instances and included in the `encode()` output.
+   */
+  computed?: ComputedFields<C>
+
+  /**
+   * Rules spanning multiple fields, checked when decoding and by providers before writing updated
+   * instances. Violations are reported as `RuntimeTypeValidationError`.
+   */
+  invariants?: Array<Invariant<t.TypeOf<C>>>
+
+  /**
+   * Checks invariants when constructing instances as well.
+   */
+  strict?: boolean
+
+  /**
+   * Legacy names of renamed fields. Values under a legacy name are mapped onto the current field
+   * when decoding, unless the current field is set as well.
+   *
+   * ### Example
+   *
+   * ```ts
+   * { ownerId: "userId" }
+   * { ownerId: { from: ["userId", "creatorId"], write: true } }
+   * ```
+   */
+  aliases?: FieldAliases<C>
+}
+
+export type Defaults<C extends t.HasProps> = {
+  [K in keyof t.TypeOf<C>]?: t.TypeOf<C>[K] | (() => t.TypeOf<C>[K])
+}
+
+export type FieldAliases<C extends t.HasProps> = {
+  [K in keyof t.TypeOf<C>]?: string | FieldAlias
+}
+
+export interface FieldAlias {
+  /**
+   * Legacy names accepted when decoding, in order of precedence.
+   */
+  from: string | string[]
+  /**
+   * Keeps writing the value under the first legacy name when encoding, e.g. for a transition
+   * period while older readers still expect it.
+   */
+  write?: boolean
+}
+
+export type ComputedFields<C extends t.HasProps> = {
+  [key: string]: (values: t.TypeOf<C>) => unknown
+}
+
+/**
+ * Model options as inferred from the arguments of `model`. Default values are only used for their
+ * keys here, since literal values (e.g. of `t.keyof` fields) are widened during inference and are
+ * checked against `ModelOptions` instead.
+ */
+type InferredOptions<C extends t.HasProps> = Omit<
+  ModelOptions<C>,
+  "defaults"
+> & {
+  defaults?: { [K in keyof t.TypeOf<C>]?: unknown }
+}
+
+/**
+ * Values of the computed fields declared in the given model options.
+ */
+export type ComputedOf<O> = O extends { computed: infer F }
+  ? {
+      readonly [K in keyof F]: F[K] extends (...args: any[]) => infer R
+        ? R
+        : never
+    }
+  : {}
+
+/**
+ * Input of the model's constructor, with fields that have a default value being optional.
+ */
+export type ModelInput<C extends t.HasProps, O = {}> = O extends {
+  defaults: infer D
+}
+  ? Omit<t.TypeOf<C>, keyof D> &
+      Partial<Pick<t.TypeOf<C>, Extract<keyof D, keyof t.TypeOf<C>>>>
+  : t.TypeOf<C>
+
+/**
+ * Options for models derived via `pick`, `omit`, `partial` and `extend`.
+ */
+export interface DeriveOptions extends ModelOptions {
+  /**
+   * Injects the provider of the original model into the derived model.
+   */
+  provider?: boolean
+}
 
 export type ModelInstance<
   T extends string,
   C extends t.HasProps,
-  P extends Provider = Provider
-> = Readonly<t.TypeOf<C>> & {
-  _model: Model<T, C, P>
-  _tag: T
-  _codec: C
-  encode(): t.OutputOf<C> & { _tag: T }
-  values(): t.TypeOf<C>
-} & InstanceProps<P>
+  P extends Provider = Provider,
+  O = {}
+> = Readonly<t.TypeOf<C>> &
+  ComputedOf<O> & {
+    _model: Model<T, C, P, O>
+    _tag: T
+    _codec: C
+    encode(): t.OutputOf<C> & { _tag: T } & ComputedOf<O>
+    values(): t.TypeOf<C>
+    /**
+     * Creates a new instance of the same model with the given fields replaced. The resulting values
+     * are validated through the model's codec.
+     *
+     * @param patch - Fields to be replaced
+     * @throws {RuntimeTypeValidationError} Resulting values can't be decoded using the model's codec.
+     */
+    with<I>(this: I, patch: Partial<t.TypeOf<C>>): I
+    /**
+     * Whether the encoded values of both instances (including `_tag`) are equal.
+     */
+    equals(other: { encode(): unknown }): boolean
+    /**
+     * Lists the changed paths of the encoded values from this instance to the other instance.
+     */
+    diff(other: { encode(): unknown }): Change[]
+    /**
+     * Whether fields changed since the instance was constructed, decoded or last persisted.
+     */
+    isDirty(): boolean
+    /**
+     * Fields that changed since the instance was constructed, decoded or last persisted.
+     */
+    changedFields(): Array<keyof t.TypeOf<C>>
+    /**
+     * Values of the instance when it was constructed, decoded or last persisted.
+     */
+    originalValues(): t.TypeOf<C>
+    /**
+     * Resets change tracking, intended to be called by providers after persisting the instance.
+     */
+    markClean(): void
+  } & InstanceProps<P>
 
 export interface BaseModel<
   T extends string,
   C extends t.HasProps,
-  P extends Provider = Provider
+  P extends Provider = Provider,
+  O = {}
 > {
   _tag: T
   _codec: C
+  _version?: number
+  /**
+   * Keys of the computed fields, which are included in the `encode()` output.
+   */
+  _computed: string[]
+  /**
+   * Legacy names of renamed fields, and whether the first legacy name is still written.
+   */
+  _aliases: { [field: string]: { from: string[]; write: boolean } }
 
-  new (input: t.TypeOf<C>): ModelInstance<T, C, P>
+  new (input: ModelInput<C, O>): ModelInstance<T, C, P, O>
 
   /**
    * Try to decode the provided value with the model's codec and create a new model instance.
@@ -59,8 +249,121 @@ export interface BaseModel<
     value: t.TypeOf<C>[K]
   ): t.OutputOf<C>[K]
 
+  /**
+   * Encodes the given fields using their codecs. Legacy names of aliased fields are mapped onto
+   * the current field and written along if configured, other keys are kept as is.
+   *
+   * @param values - Fields to be encoded
+   */
+  encodeProps(values: Partial<t.TypeOf<C>>): Partial<t.OutputOf<C>>
+
+  /**
+   * Checks the given values against the model's invariants.
+   *
+   * @param value - Values to be checked
+   * @throws {RuntimeTypeValidationError} Values violate an invariant.
+   */
+  assertInvariants(value: t.TypeOf<C>): void
+
+  /**
+   * Describes the model's fields, e.g. whether they are required, their kind and their encoded
+   * and decoded type names.
+   */
+  describe(): ModelDescriptor
+
+  /**
+   * Derives a new model with only the given fields of this model's codec.
+   *
+   * @param tag - Unique identifier/name for the derived model.
+   * @param keys - Fields to be kept.
+   * @param options - Model options and whether to carry over the provider.
+   */
+  pick<
+    M extends ModelConstructor,
+    T2 extends string,
+    K extends keyof t.TypeOf<M["_codec"]>
+  >(
+    this: M,
+    tag: T2,
+    keys: K[],
+    options?: DeriveOptions & { provider?: false }
+  ): Model<T2, PickedCodec<M["_codec"], K>>
+  pick<
+    M extends ModelConstructor,
+    T2 extends string,
+    K extends keyof t.TypeOf<M["_codec"]>
+  >(
+    this: M,
+    tag: T2,
+    keys: K[],
+    options: DeriveOptions & { provider: true }
+  ): Model<T2, PickedCodec<M["_codec"], K>, P>
+  /**
+   * Derives a new model without the given fields of this model's codec.
+   *
+   * @param tag - Unique identifier/name for the derived model.
+   * @param keys - Fields to be removed.
+   * @param options - Model options and whether to carry over the provider.
+   */
+  omit<
+    M extends ModelConstructor,
+    T2 extends string,
+    K extends keyof t.TypeOf<M["_codec"]>
+  >(
+    this: M,
+    tag: T2,
+    keys: K[],
+    options?: DeriveOptions & { provider?: false }
+  ): Model<T2, OmittedCodec<M["_codec"], K>>
+  omit<
+    M extends ModelConstructor,
+    T2 extends string,
+    K extends keyof t.TypeOf<M["_codec"]>
+  >(
+    this: M,
+    tag: T2,
+    keys: K[],
+    options: DeriveOptions & { provider: true }
+  ): Model<T2, OmittedCodec<M["_codec"], K>, P>
+  /**
+   * Derives a new model with all fields of this model's codec being optional.
+   *
+   * @param tag - Unique identifier/name for the derived model.
+   * @param options - Model options and whether to carry over the provider.
+   */
+  partial<M extends ModelConstructor, T2 extends string>(
+    this: M,
+    tag: T2,
+    options?: DeriveOptions & { provider?: false }
+  ): Model<T2, PartialCodec<M["_codec"]>>
+  partial<M extends ModelConstructor, T2 extends string>(
+    this: M,
+    tag: T2,
+    options: DeriveOptions & { provider: true }
+  ): Model<T2, PartialCodec<M["_codec"]>, P>
+  /**
+   * Derives a new model with the given additional fields. Validations of this model's codec are
+   * kept.
+   *
+   * @param tag - Unique identifier/name for the derived model.
+   * @param props - Additional fields.
+   * @param options - Model options and whether to carry over the provider.
+   */
+  extend<M extends ModelConstructor, T2 extends string, P2 extends t.Props>(
+    this: M,
+    tag: T2,
+    props: P2,
+    options?: DeriveOptions & { provider?: false }
+  ): Model<T2, t.IntersectionC<[M["_codec"], t.TypeC<P2>]>>
+  extend<M extends ModelConstructor, T2 extends string, P2 extends t.Props>(
+    this: M,
+    tag: T2,
+    props: P2,
+    options: DeriveOptions & { provider: true }
+  ): Model<T2, t.IntersectionC<[M["_codec"], t.TypeC<P2>]>, P>
+
   // io-ts interop
-  _A: ModelInstance<T, C, P>
+  _A: ModelInstance<T, C, P, O>
   _O: t.TypeOf<C> & { _tag: T }
   _I: unknown
   is<M extends ModelConstructor>(
@@ -90,13 +393,20 @@ export interface BaseModel<
   asEncoder<M extends ModelConstructor>(
     this: M
   ): t.Encoder<TypeOf<M>, OutputOf<M>>
+
+  // Standard Schema interop, e.g. for form libraries
+  readonly "~standard": StandardSchemaV1.Props<
+    unknown,
+    ModelInstance<T, C, P, O>
+  >
 }
 
 export type Model<
   T extends string,
   C extends t.HasProps,
-  P extends Provider = Provider
-> = BaseModel<T, C, P> & ClassProps<P>
+  P extends Provider = Provider,
+  O = {}
+> = BaseModel<T, C, P, O> & ClassProps<P>
 
 export type AnyModel = Model<string, any>
 export type AnyModelInstance = InstanceType<AnyModel>
@@ -104,10 +414,91 @@ export type AnyModelInstance = InstanceType<AnyModel>
 export type ModelOf<T extends AnyModelInstance> = T["_model"]
 export type TypeOf<T extends ModelConstructor> = InstanceType<T>
 export type InputOf<T extends ModelConstructor> = t.InputOf<T["_codec"]>
+
 export type OutputOf<T extends ModelConstructor> = t.OutputOf<T["_codec"]> & {
   _tag: T["_tag"]
 }
 
+/**
+ * Props of a codec that are required, i.e. not declared via `t.partial`.
+ */
+export type RequiredPropsOf<C> = t.HasProps extends C
+  ? // Unknown codec
+    {}
+  : C extends
+      | t.InterfaceType<infer P, any, any>
+      | t.StrictType<infer P, any, any>
+  ? P
+  : C extends t.IntersectionType<infer CS, any, any>
+  ? UnionToIntersection<{ [K in keyof CS]: RequiredPropsOf<CS[K]> }[number]>
+  : C extends
+      | t.ExactType<infer U, any, any>
+      | t.RefinementType<infer U, any, any>
+      | t.ReadonlyType<infer U, any, any>
+  ? RequiredPropsOf<U>
+  : {}
+
+/**
+ * Props of a codec that are optional, i.e. declared via `t.partial` and not required by another
+ * member of an intersection.
+ */
+export type OptionalPropsOf<C> = Omit<
+  AllOptionalPropsOf<C>,
+  keyof RequiredPropsOf<C>
+>
+
+export type PropsOf<C> = RequiredPropsOf<C> & OptionalPropsOf<C>
+
+/**
+ * Codec of models derived via `pick`.
+ */
+export type PickedCodec<C, K extends PropertyKey> = t.IntersectionC<
+  [
+    t.TypeC<
+      AsProps<Pick<RequiredPropsOf<C>, Extract<K, keyof RequiredPropsOf<C>>>>
+    >,
+    t.PartialC<
+      AsProps<Pick<OptionalPropsOf<C>, Extract<K, keyof OptionalPropsOf<C>>>>
+    >
+  ]
+>
+
+/**
+ * Codec of models derived via `omit`.
+ */
+export type OmittedCodec<C, K extends PropertyKey> = t.IntersectionC<
+  [
+    t.TypeC<AsProps<Omit<RequiredPropsOf<C>, K>>>,
+    t.PartialC<AsProps<Omit<OptionalPropsOf<C>, K>>>
+  ]
+>
+
+/**
+ * Codec of models derived via `partial`.
+ */
+export type PartialCodec<C extends t.HasProps> = t.PartialC<AsProps<PropsOf<C>>>
+
+type AllOptionalPropsOf<C> = t.HasProps extends C
+  ? {}
+  : C extends t.PartialType<infer P, any, any>
+  ? P
+  : C extends t.IntersectionType<infer CS, any, any>
+  ? UnionToIntersection<{ [K in keyof CS]: AllOptionalPropsOf<CS[K]> }[number]>
+  : C extends
+      | t.ExactType<infer U, any, any>
+      | t.RefinementType<infer U, any, any>
+      | t.ReadonlyType<infer U, any, any>
+  ? AllOptionalPropsOf<U>
+  : {}
+
+type AsProps<T> = Extract<T, t.Props>
+
+type UnionToIntersection<U> = (U extends any ? (u: U) => void : never) extends (
+  i: infer I
+) => void
+  ? I
+  : never
+
 /**
  * Creates a new model class with the given tag and codec.
  *
@@ -149,37 +540,346 @@ export function model<
   C extends t.HasProps,
   P extends Provider
 >(tag: T, codec: C, provider: P): Model<T, C, P>
+/**
+ * Creates a new model class with the given tag, codec and options.
+ *
+ * ### Example
+ *
+ * ```
+ * class MyClass extends model("MyClass", t.type({ foo: t.number }), {
+ *   version: 2,
+ *   migrations: [({ bar, ...rest }) => ({ ...rest, foo: bar })]
+ * }) {}
+ * ```
+ *
+ * @param tag - Unique identifier/name for the model.
+ * @param codec - io-ts type used for encoding and decoding.
+ * @param options - Model options, e.g. versioning.
+ */
+export function model<
+  T extends string,
+  C extends t.HasProps,
+  O extends InferredOptions<C>
+>(tag: T, codec: C, options: O & ModelOptions<C>): Model<T, C, Provider, O>
+/**
+ * Creates a new model class with the given tag, codec and options and inject properties and
+ * methods from the given provider.
+ *
+ * @param tag - Unique identifier/name for the model.
+ * @param codec - io-ts type used for encoding and decoding.
+ * @param provider - Provider injecting class and instance props.
+ * @param options - Model options, e.g. versioning.
+ */
+export function model<
+  T extends string,
+  C extends t.HasProps,
+  P extends Provider,
+  O extends InferredOptions<C>
+>(
+  tag: T,
+  codec: C,
+  provider: P,
+  options: O & ModelOptions<C>
+): Model<T, C, P, O>
 export function model<
   T extends string,
   C extends t.HasProps,
   P extends Provider
->(tag: T, codec: C, provider?: P): Model<T, C, P> {
+>(
+  tag: T,
+  codec: C,
+  providerOrOptions?: P | ModelOptions<C>,
+  maybeOptions?: ModelOptions<C>
+): Model<T, C, P> {
+  const provider = isProvider(providerOrOptions)
+    ? (providerOrOptions as P)
+    : undefined
+  const options: ModelOptions<C> =
+    (provider ? maybeOptions : (providerOrOptions as ModelOptions<C>)) ?? {}
+  const hooks: ProviderHooks = provider?.hooks ?? {}
+
+  const {
+    version,
+    migrations = [],
+    freeze = false,
+    defaults = {},
+    computed = {},
+    invariants = [],
+    strict = false,
+    aliases = {}
+  } = options
+  if (version !== undefined) assertMigrations(tag, version, migrations)
+
+  const defaultKeys = Object.keys(defaults)
+  const computedKeys = Object.keys(computed)
+  const propKeys = Object.keys(getProps(codec))
+  const propKeySet = new Set(propKeys)
+
+  // [field, legacy names, written legacy name]
+  const aliasEntries = Object.entries(aliases as FieldAliases<any>).map(
+    ([key, alias]) => {
+      const { from, write = false } =
+        typeof alias === "string" ? { from: alias } : (alias as FieldAlias)
+      const names = ([] as string[]).concat(from)
+      return [key, names, write ? names[0] : undefined] as const
+    }
+  )
+  const fieldOf = (key: string) =>
+    aliasEntries.find(([, names]) => names.includes(key))?.[0] ?? key
+
+  /**
+   * Maps values of legacy field names onto their current fields.
+   */
+  const withAliases = (value: unknown) => {
+    if (!aliasEntries.length || typeof value !== "object" || value === null)
+      return value
+
+    const result: any = { ...value }
+    aliasEntries.forEach(([key, names]) => {
+      if (result[key] !== undefined) return
+
+      const name = names.find(name => result[name] !== undefined)
+      if (name !== undefined) result[key] = result[name]
+    })
+
+    return result
+  }
+
+  /**
+   * Legacy fields to be written along the encoded current fields.
+   */
+  const legacyFields = (encoded: any) =>
+    aliasEntries.map(([key, , written]) =>
+      written !== undefined && encoded[key] !== undefined
+        ? { [written]: encoded[key] }
+        : {}
+    )
+
+  /**
+   * Sets missing fields to their default values, encoded for values to be decoded.
+   */
+  const withDefaults = (value: unknown, encode: boolean) => {
+    if (!defaultKeys.length || typeof value !== "object" || value === null)
+      return value
+
+    const result: any = { ...value }
+    defaultKeys.forEach(key => {
+      if (result[key] !== undefined) return
+
+      const fallback = (defaults as any)[key]
+      // Static values are copied, so that instances don't share nested values
+      const resolved =
+        typeof fallback === "function" ? fallback() : deepCopy(fallback)
+      result[key] = encode ? (Model as any).encodeProp(key, resolved) : resolved
+    })
+
+    return result
+  }
+
+  /**
+   * Upgrades versioned values, maps legacy field names and applies defaults before validating them
+   * with the model's codec and invariants.
+   */
+  const validateCodec = (value: unknown, context: t.Context) =>
+    either.chain(
+      version === undefined
+        ? Model._codec.validate(withDefaults(withAliases(value), true), context)
+        : either.chain(migrate(value, version, migrations, context), migrated =>
+            Model._codec.validate(
+              withDefaults(withAliases(migrated), true),
+              context
+            )
+          ),
+      decoded => validateInvariants(decoded, context)
+    )
+
+  const validateInvariants = <A>(value: A, context: t.Context) =>
+    invariants.length
+      ? checkInvariants(value, invariants, getProps(codec), context)
+      : t.success(value)
+
+  /**
+   * Encodes the codec fields of an instance to track changes, `undefined` if the instance holds
+   * invalid values.
+   */
+  const snapshot = (instance: unknown) => {
+    try {
+      // Identity codecs encode to the same references
+      return deepCopy(Model._codec.encode(instance as t.TypeOf<C>))
+    } catch (error) {
+      return undefined
+    }
+  }
+
+  /**
+   * Tracks changes against the current values of the instance. Values are copied, so that nested
+   * values mutated in place are detected, but only encoded once changes are queried.
+   */
+  const track = (instance: object) => {
+    const values = deepCopy({ ...instance })
+    let original: { encoded: unknown } | undefined
+
+    originals.set(
+      instance,
+      () => (original ??= { encoded: snapshot(values) }).encoded
+    )
+  }
+
+  /**
+   * Freezes the fields of an instance if configured and tracks changes from now on.
+   */
+  const seal = (instance: object) => {
+    if (freeze)
+      propKeys.forEach(key => {
+        if (!(key in instance)) return
+
+        Object.defineProperty(instance, key, {
+          value: frozenCopy((instance as any)[key]),
+          enumerable: true,
+          writable: false,
+          configurable: false
+        })
+      })
+
+    track(instance)
+  }
+
+  // Whether instances are being decoded, which are sealed after the `afterDecode` hook
+  let decoding = false
+
+  /**
+   * Instantiates decoded values, passing the instance through the provider's `afterDecode` hook
+   * before sealing it.
+   */
+  const instantiate = (model: ModelConstructor, decoded: t.TypeOf<C>) => {
+    decoding = true
+    let instance: any
+    try {
+      instance = new model(decoded)
+    } finally {
+      decoding = false
+    }
+
+    const result = hooks.afterDecode
+      ? hooks.afterDecode(instance, model)
+      : instance
+    seal(instance)
+
+    return result
+  }
+
   class Model {
     static _tag = tag
     static _codec = t.exact(codec)
+    static _version = version
+    static _computed = computedKeys
+    static _aliases = Object.fromEntries(
+      aliasEntries.map(([key, names, written]) => [
+        key,
+        { from: [...names], write: written !== undefined }
+      ])
+    )
+
+    _tag: string
+    _codec: t.ExactC<C>
 
     constructor(input: t.TypeOf<C>) {
-      Object.assign(this, input)
-      Object.assign(this, {
-        _tag: Model._tag,
-        _codec: Model._codec,
-        encode() {
-          return (Model as any).encode(this)
-        },
-        values(): t.TypeOf<C> {
-          const keys = new Set(Object.keys(getProps(codec)))
-          return Object.fromEntries(
-            Object.entries(this).filter(([key]) => keys.has(key))
-          )
-        },
-        toJSON(): t.TypeOf<C> {
-          return { _tag: this._tag, ...this.values() }
-        },
-        [Symbol.for("nodejs.util.inspect.custom")](): string {
-          return `${Model._tag} ${JSON.stringify(this.values(), null, 2)}`
-        }
+      const decoded = decoding
+      decoding = false
+
+      const values = withDefaults(input, false) as t.TypeOf<C>
+      if (strict) Model.assertInvariants(values)
+
+      // Only data is stored on instances, shared behaviour lives on the prototype
+      Object.assign(
+        this,
+        computedKeys.length
+          ? // Computed fields are read-only
+            Object.fromEntries(
+              Object.entries(values).filter(([key]) => !(key in computed))
+            )
+          : values
+      )
+      this._tag = Model._tag
+      this._codec = Model._codec
+      hooks.onConstruct?.(this, this.constructor as ModelConstructor)
+
+      if (!decoded) seal(this)
+    }
+
+    encode() {
+      return (Model as any).encode(this)
+    }
+
+    values(): t.TypeOf<C> {
+      return Object.fromEntries(
+        Object.entries(this).filter(([key]) => propKeySet.has(key))
+      )
+    }
+
+    toJSON(): t.TypeOf<C> {
+      return redact(codec, { _tag: this._tag, ...this.values() })
+    }
+
+    with(patch: Partial<t.TypeOf<C>>) {
+      const model = (this as any)._model as ModelConstructor
+      const instance: any = model.from({
+        ...this.encode(),
+        ...model.encodeProps(patch)
+      })
+
+      // Carry over additional fields, e.g. set by providers
+      Object.entries(this).forEach(([key, value]) => {
+        if (!(key in instance)) instance[key] = value
       })
-      Object.assign(this, provider?.instanceProps ?? {})
+      // Changes are tracked against the original instance
+      const original = originals.get(this)
+      if (original) originals.set(instance, original)
+
+      return instance
+    }
+
+    equals(other: { encode(): unknown }): boolean {
+      return equals(this.encode(), other.encode())
+    }
+
+    diff(other: { encode(): unknown }): Change[] {
+      return diff(this.encode(), other.encode())
+    }
+
+    isDirty(): boolean {
+      return this.changedFields().length > 0
+    }
+
+    changedFields() {
+      const original = originals.get(this)?.()
+      const current = snapshot(this)
+      if (!original || !current) return [...propKeys]
+
+      return Array.from(
+        new Set(diff(original, current).map(({ path }) => path[0]))
+      )
+    }
+
+    originalValues(): t.TypeOf<C> {
+      const original = originals.get(this)?.()
+      if (!original) return this.values()
+
+      const decoded = Model._codec.decode(original)
+      if (isLeft(decoded)) throw new RuntimeTypeValidationError(decoded.left)
+      return decoded.right
+    }
+
+    markClean() {
+      track(this)
+    }
+
+    [Symbol.for("nodejs.util.inspect.custom")](): string {
+      return `${Model._tag} ${JSON.stringify(
+        redact(codec, this.values()),
+        null,
+        2
+      )}`
     }
 
     get _model() {
@@ -197,9 +897,12 @@ export function model<
       this: M,
       value: unknown
     ): InstanceType<M> {
-      const decoded = this._codec.decode(value)
-      if (isLeft(decoded)) throw new RuntimeTypeValidationError(decoded.left)
-      return new this(decoded.right)
+      const decoded = validateCodec(value, t.getDefaultContext(this._codec))
+      if (isLeft(decoded)) {
+        hooks.onValidationError?.(decoded.left, value, this)
+        throw new RuntimeTypeValidationError(decoded.left)
+      }
+      return instantiate(this, decoded.right)
     }
     // Shorthand for decodeOrThrow
     static from<M extends ModelConstructor<any>>(
@@ -215,7 +918,7 @@ export function model<
       value: T[K]
     ) {
       try {
-        const encoded = encodeProp(Model._codec, key, value)
+        const encoded = encodeProp(Model._codec, fieldOf(key as string), value)
         return encoded
       } catch (error) {
         // In case that nothing matched, return the value itself.
@@ -223,6 +926,71 @@ export function model<
       }
     }
 
+    static encodeProps(values: Partial<t.TypeOf<C>>) {
+      return Object.assign(
+        {},
+        ...Object.entries(values).map(([key, value]) => {
+          const field = fieldOf(key)
+          const encoded = (Model as any).encodeProp(field, value)
+          return Object.assign(
+            { [field]: encoded },
+            ...legacyFields({ [field]: encoded })
+          )
+        })
+      )
+    }
+
+    static assertInvariants(value: t.TypeOf<C>) {
+      const checked = validateInvariants(
+        value,
+        t.getDefaultContext(Model._codec)
+      )
+      if (isLeft(checked)) throw new RuntimeTypeValidationError(checked.left)
+    }
+
+    static describe() {
+      return describe(Model as any as AnyModel)
+    }
+
+    static pick(tag: string, keys: string[], options?: DeriveOptions) {
+      const { required, optional } = partitionProps(codec)
+      const picked = (props: t.Props) =>
+        Object.fromEntries(
+          Object.entries(props).filter(([key]) => keys.includes(key))
+        )
+
+      return derive(
+        tag,
+        t.intersection([t.type(picked(required)), t.partial(picked(optional))]),
+        options
+      )
+    }
+
+    static omit(tag: string, keys: string[], options?: DeriveOptions) {
+      const { required, optional } = partitionProps(codec)
+      const omitted = (props: t.Props) =>
+        Object.fromEntries(
+          Object.entries(props).filter(([key]) => !keys.includes(key))
+        )
+
+      return derive(
+        tag,
+        t.intersection([
+          t.type(omitted(required)),
+          t.partial(omitted(optional))
+        ]),
+        options
+      )
+    }
+
+    static partial(tag: string, options?: DeriveOptions) {
+      return derive(tag, t.partial(getProps(codec)), options)
+    }
+
+    static extend(tag: string, props: t.Props, options?: DeriveOptions) {
+      return derive(tag, t.intersection([codec, t.type(props)]), options)
+    }
+
     // io-ts interop
     static is<M extends ModelConstructor>(
       this: M,
@@ -234,25 +1002,37 @@ export function model<
       this: ModelConstructor<T>,
       value: unknown
     ): t.Validation<T> {
-      return either.map(
-        Model._codec.decode(value),
-        decoded => new this(decoded)
+      const decoded = either.map(
+        validateCodec(value, t.getDefaultContext(Model._codec)),
+        decoded => instantiate(this, decoded)
       )
+      if (isLeft(decoded)) hooks.onValidationError?.(decoded.left, value, this)
+      return decoded
     }
     static encode<M extends ModelConstructor>(
       this: M,
       value: InstanceType<M>
     ): OutputOf<M> {
-      return Object.assign(Model._codec.encode(value), { _tag: Model._tag })
+      const values = hooks.beforeEncode
+        ? hooks.beforeEncode(value, this)
+        : value
+      const fields = Model._codec.encode(values)
+      const encoded = Object.assign(
+        fields,
+        ...legacyFields(fields),
+        { _tag: Model._tag },
+        version === undefined ? {} : { _version: version },
+        ...computedKeys.map(key => ({ [key]: computed[key](value) }))
+      )
+      return hooks.afterEncode ? hooks.afterEncode(encoded, this) : encoded
     }
     static validate<T>(
       this: ModelConstructor<T>,
       value: unknown,
       context: t.Context
     ): t.Validation<T> {
-      return either.map(
-        Model._codec.validate(value, context),
-        decoded => new this(decoded)
+      return either.map(validateCodec(value, context), decoded =>
+        instantiate(this, decoded)
       )
     }
     static pipe<
@@ -289,9 +1069,80 @@ export function model<
     ): t.Encoder<InstanceType<M>, OutputOf<M>> {
       return this
     }
+
+    // Standard Schema interop
+    static get "~standard"() {
+      return standardSchemaOf(this as any as ModelConstructor)
+    }
   }
 
-  Object.assign(Model, provider?.classProps ?? {})
+  /**
+   * Creates a model derived from this model, optionally injecting the same provider.
+   */
+  const derive = (
+    tag: string,
+    codec: t.HasProps,
+    { provider: withProvider = false, ...options }: DeriveOptions = {}
+  ): AnyModel =>
+    withProvider && provider
+      ? model(tag, codec, provider, options)
+      : model(tag, codec, options)
+
+  computedKeys.forEach(key =>
+    Object.defineProperty(Model.prototype, key, {
+      get() {
+        return computed[key](this)
+      },
+      enumerable: false,
+      configurable: true
+    })
+  )
+
+  // Instance props are shared via the prototype, like the model's own methods
+  Object.entries(
+    Object.getOwnPropertyDescriptors(provider?.instanceProps ?? {})
+  ).forEach(([key, descriptor]) =>
+    Object.defineProperty(Model.prototype, key, {
+      ...descriptor,
+      enumerable: false
+    })
+  )
+
+  // Getters of class props are evaluated on access, e.g. of namespaced providers
+  Object.defineProperties(
+    Model,
+    Object.getOwnPropertyDescriptors(provider?.classProps ?? {})
+  )
 
   return Model as any
 }
+
+/**
+ * Encoded codec fields of instances at construction or their last persist, encoded on first use.
+ */
+const originals = new WeakMap<object, () => unknown>()
+
+/**
+ * Deeply freezes a copy of arrays, plain objects and model instances, so that values passed in by
+ * callers aren't frozen along. Other values (e.g. dates) are kept as is.
+ */
+function frozenCopy<T>(value: T): T {
+  if (Array.isArray(value)) return Object.freeze(value.map(frozenCopy)) as any
+  if (typeof value !== "object" || value === null || Object.isFrozen(value))
+    return value
+
+  const object: any = value
+  const prototype = Object.getPrototypeOf(object)
+  if (prototype !== Object.prototype && !isModel(object.constructor))
+    return value
+
+  const copy = Object.create(prototype)
+  Object.entries(object).forEach(
+    ([key, item]) => (copy[key] = frozenCopy(item))
+  )
+  // Changes of nested instances are tracked against their original values
+  const original = originals.get(object)
+  if (original) originals.set(copy, original)
+
+  return Object.freeze(copy)
+}
@@ -1,3 +1,7 @@
+import * as t from "io-ts"
+import { ModelConstructor } from "./utils"
+import { Union } from "./union"
+
 /**
  * Interface to build data and functional providers against.
  *
@@ -156,6 +160,64 @@ export interface Provider {
    * ```
    */
   unionProps?: { [key: string]: any }
+
+  /**
+   * Hooks into the construction, decoding and encoding of model instances.
+   *
+   * ### Example
+   *
+   * ```ts
+   * const provider = {
+   *    // ...
+   *    hooks: {
+   *        beforeEncode(instance) {
+   *            return { ...instance, updatedAt: new Date() }
+   *        },
+   *        onValidationError(errors, value, model) {
+   *            metrics.increment("decode_failed", { model: model.name })
+   *        },
+   *    },
+   * }
+   * ```
+   */
+  hooks?: ProviderHooks
+}
+
+/**
+ * Hooks a provider can register, composed in order by `mergeProviders`.
+ */
+export interface ProviderHooks {
+  /**
+   * Called for every new instance, including decoded instances and `new Model(...)`, before it's
+   * frozen and its original values are tracked. May set fields on the instance.
+   */
+  onConstruct?(instance: any, model: ModelConstructor): void
+
+  /**
+   * Called with instances decoded via `from`, `decode` or as part of another codec, returning the
+   * instance to use.
+   */
+  afterDecode?(instance: any, model: ModelConstructor): any
+
+  /**
+   * Called before an instance is encoded, returning the values to encode.
+   */
+  beforeEncode?(instance: any, model: ModelConstructor): any
+
+  /**
+   * Called with the encoded values of an instance, returning the values to use.
+   */
+  afterEncode?(encoded: any, model: ModelConstructor): any
+
+  /**
+   * Called when decoding a value via `from` or `decode` fails, before the error is thrown or
+   * returned. Not called for failing members of unions, as long as another member succeeds.
+   */
+  onValidationError?(
+    errors: t.Errors,
+    value: unknown,
+    model: ModelConstructor | Union
+  ): void
 }
 
 /**
@@ -172,3 +234,167 @@ export type ClassProps<P extends Provider> = P["classProps"]
  * The Provider's injected union props.
  */
 export type UnionProps<P extends Provider> = P["unionProps"]
+
+/**
+ * Checks whether the given value is a provider rather than an options object.
+ */
+export function isProvider(value: unknown): value is Provider {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ("classProps" in value ||
+      "instanceProps" in value ||
+      "unionProps" in value ||
+      "hooks" in value)
+  )
+}
+
+/**
+ * Thrown by `mergeProviders` with a precedence of `"error"` if multiple providers inject props with
+ * the same name.
+ */
+export class ProviderConflictError extends Error {
+  name = "ProviderConflictError"
+  /**
+   * Conflicting props, e.g. `["instanceProps.put"]`.
+   */
+  conflicts: string[]
+
+  constructor(conflicts: string[]) {
+    super(
+      `Multiple providers inject ${conflicts.join(
+        ", "
+      )}. Namespace a provider via \`namespaceProvider\`, keep the props of the first or last provider via \`precedence\` or wrap props via \`middleware\`.`
+    )
+    this.conflicts = conflicts
+  }
+}
+
+const MIDDLEWARE = Symbol("model-ts/middleware")
+
+/**
+ * Method wrapping the method of the same name injected by a preceding provider.
+ */
+export interface Middleware {
+  readonly [MIDDLEWARE]: true
+  (this: any, next: (...args: any[]) => any, ...args: any[]): any
+}
+
+/**
+ * Wraps the method of the same name injected by a preceding provider when merged via
+ * `mergeProviders`, rather than conflicting with it. `next` invokes the wrapped method with the
+ * same `this`.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const publishing = {
+ *   instanceProps: {
+ *     put: middleware(async function (next, ...args) {
+ *       const result = await next(...args)
+ *       await this.publish()
+ *       return result
+ *     })
+ *   }
+ * }
+ *
+ * class User extends model("User", codec, mergeProviders([dynamoDBProvider, publishing])) {}
+ * ```
+ *
+ * @param fn - Method receiving the wrapped method and the arguments.
+ */
+export const middleware = (
+  fn: (this: any, next: (...args: any[]) => any, ...args: any[]) => any
+): Middleware => Object.assign(fn, { [MIDDLEWARE]: true as const })
+
+/**
+ * Checks whether the given value was created via `middleware`.
+ */
+export const isMiddleware = (value: unknown): value is Middleware =>
+  typeof value === "function" && (value as any)[MIDDLEWARE] === true
+
+type PropsOf<
+  P,
+  K extends "classProps" | "instanceProps" | "unionProps"
+> = P extends { [key in K]?: infer Props }
+  ? Props extends object
+    ? Props
+    : {}
+  : {}
+
+/**
+ * Methods no longer depending on `this`, as they're bound to the model or instance.
+ */
+type Bound<Props> = {
+  [K in keyof Props]: Props[K] extends (...args: any[]) => any
+    ? OmitThisParameter<Props[K]>
+    : Props[K]
+}
+
+export type NamespacedProvider<K extends string, P extends Provider> = {
+  classProps: { [key in K]: Bound<PropsOf<P, "classProps">> }
+  instanceProps: { [key in K]: Bound<PropsOf<P, "instanceProps">> }
+  unionProps: { [key in K]: Bound<PropsOf<P, "unionProps">> }
+  hooks: ProviderHooks
+}
+
+/**
+ * Injects the class, instance and union props of a provider under the given key, e.g. to use
+ * multiple providers injecting props with the same name. Methods are bound to the model, instance
+ * or union. Hooks aren't namespaced.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class User extends model(
+ *   "User",
+ *   codec,
+ *   mergeProviders([dynamoDBProvider, namespaceProvider("cache", cacheProvider)])
+ * ) {}
+ *
+ * await user.put() // DynamoDB
+ * await user.cache.put() // Cache
+ * ```
+ *
+ * @param key - Name of the property holding the provider's props.
+ * @param provider - Provider to namespace.
+ */
+export function namespaceProvider<K extends string, P extends Provider>(
+  key: K,
+  provider: P
+): NamespacedProvider<K, P> {
+  const namespace = (props: object = {}) => ({
+    get [key](): object {
+      return bindProps(props, this)
+    },
+  })
+
+  return {
+    classProps: namespace(provider.classProps),
+    instanceProps: namespace(provider.instanceProps),
+    unionProps: namespace(provider.unionProps),
+    hooks: provider.hooks ?? {},
+  } as NamespacedProvider<K, P>
+}
+
+/**
+ * Binds methods and getters of the given props to the target.
+ */
+function bindProps(props: object, target: unknown) {
+  return Object.defineProperties(
+    {},
+    Object.fromEntries(
+      Object.entries(Object.getOwnPropertyDescriptors(props)).map(
+        ([key, { get, value }]) => [
+          key,
+          get
+            ? { enumerable: true, get: () => get.call(target) }
+            : {
+                enumerable: true,
+                value: typeof value === "function" ? value.bind(target) : value,
+              },
+        ]
+      )
+    )
+  )
+}
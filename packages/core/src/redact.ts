@@ -0,0 +1,115 @@
+import * as t from "io-ts"
+import { AnyModelInstance } from "./model"
+import { isSensitive } from "./types"
+import { isModel, isUnion } from "./utils"
+
+/**
+ * Replacement of sensitive values.
+ */
+export const REDACTED = "[REDACTED]"
+
+/**
+ * Masks the values of sensitive fields (marked via `t.sensitive`) in the given value, which can be
+ * decoded or encoded. Nested models and unions are resolved by their `_tag`.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const codec = t.type({ email: t.string, token: t.sensitive(t.string) })
+ *
+ * redact(codec, { email: "jane@example.com", token: "secret" })
+ * // -> { email: "jane@example.com", token: "[REDACTED]" }
+ * ```
+ *
+ * @param codec - Model, union or io-ts codec describing the value.
+ * @param value - Value to be redacted.
+ */
+export function redact(codec: t.Decoder<any, any>, value: unknown): unknown {
+  if (value === undefined) return value
+  if (isSensitive(codec)) return REDACTED
+
+  if (isUnion(codec)) {
+    const model = codec._models.find(
+      model => (value as { _tag?: unknown })?._tag === model._tag
+    )
+    return model ? redact(model, value) : value
+  }
+
+  if (isModel(codec)) {
+    // Instances of nested models are represented like `toJSON()`
+    if (value instanceof codec) {
+      const instance = value as AnyModelInstance
+      return redact(codec._codec, { _tag: instance._tag, ...instance.values() })
+    }
+
+    return redact(codec._codec, value)
+  }
+
+  const type = codec as t.Any & { _tag?: string }
+
+  switch (type._tag) {
+    case "RefinementType":
+    case "ReadonlyType":
+    case "ExactType":
+    case "RecursiveType":
+      return redact((codec as t.RefinementC<t.Any>).type, value)
+    case "InterfaceType":
+    case "StrictType":
+    case "PartialType": {
+      if (!isObject(value)) return value
+
+      const props: t.Props = (codec as t.TypeC<t.Props>).props
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          key in props ? redact(props[key], item) : item
+        ])
+      )
+    }
+    case "IntersectionType":
+      return (codec as t.IntersectionC<[t.Mixed, t.Mixed]>).types.reduce(
+        (redacted, type) => redact(type, redacted),
+        value
+      )
+    case "UnionType": {
+      const types = (codec as t.UnionC<[t.Mixed, t.Mixed]>).types
+      // Values not matching any member are masked if a member is sensitive
+      const member =
+        types.find(type => type.is(value)) ?? types.find(isSensitive)
+      return member ? redact(member, value) : value
+    }
+    case "ArrayType":
+    case "ReadonlyArrayType": {
+      const item = (codec as t.ArrayC<t.Any>).type
+      return Array.isArray(value) ? value.map(v => redact(item, v)) : value
+    }
+    case "TupleType": {
+      const types = (codec as t.TupleC<[t.Mixed]>).types
+      return Array.isArray(value)
+        ? value.map((v, index) => (types[index] ? redact(types[index], v) : v))
+        : value
+    }
+    case "DictionaryType": {
+      const { codomain } = codec as t.RecordC<t.Mixed, t.Mixed>
+      return isObject(value)
+        ? Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+              key,
+              redact(codomain, item)
+            ])
+          )
+        : value
+    }
+  }
+
+  // `t.nonEmptyArray` and `t.readonlyNonEmptyArray`
+  const item = (codec as t.Any & { type?: t.Any }).type
+  if (/^(Readonly)?NonEmptyArray</.test(codec.name) && item)
+    return Array.isArray(value) ? value.map(v => redact(item, v)) : value
+
+  return value
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,104 @@
+import { AnyModel, AnyModelInstance } from "./model"
+import { RuntimeTypeValidationError } from "./runtime-type-validation-error"
+
+const REGISTRY = Symbol.for("@model-ts/core/registry")
+
+/**
+ * Opt-in registry of models by tag, used to decode arbitrary payloads by their `_tag` and to
+ * detect models sharing the same tag.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const registry = new Registry()
+ *
+ * @registry.register
+ * class A extends model("A", t.type({ a: t.string })) {}
+ *
+ * registry.decode({ _tag: "A", a: "a" }) // -> A { a: "a" }
+ * ```
+ */
+export class Registry {
+  readonly [REGISTRY] = true
+  private _models = new Map<string, AnyModel>()
+
+  /**
+   * Registers a model under its tag. Can be used as class decorator.
+   *
+   * @param model - Model to be registered
+   * @throws {Error} A different model with the same tag is already registered.
+   */
+  register = <M extends AnyModel>(model: M): M => {
+    const registered = this._models.get(model._tag)
+
+    if (registered && registered !== model)
+      throw new Error(
+        `Can't register model ${model.name}, tag ${model._tag} is already used by model ${registered.name}.`
+      )
+
+    this._models.set(model._tag, model)
+
+    return model
+  }
+
+  /**
+   * Returns the model registered for the given tag.
+   */
+  get(tag: string): AnyModel | undefined {
+    return this._models.get(tag)
+  }
+
+  has(tag: string): boolean {
+    return this._models.has(tag)
+  }
+
+  /**
+   * All registered models in order of registration.
+   */
+  get models(): AnyModel[] {
+    return Array.from(this._models.values())
+  }
+
+  /**
+   * Decodes the provided value with the model registered for its `_tag`.
+   *
+   * @param value - Value to be decoded
+   * @throws {RuntimeTypeValidationError} No model is registered for the value's `_tag` or the value
+   * can't be decoded using the model's codec.
+   */
+  decode(value: unknown): AnyModelInstance {
+    const _tag =
+      typeof value === "object" && value !== null && "_tag" in value
+        ? (value as { _tag: unknown })._tag
+        : undefined
+    const model = typeof _tag === "string" ? this._models.get(_tag) : undefined
+
+    if (!model)
+      throw new RuntimeTypeValidationError(
+        _tag === undefined
+          ? "Couldn't decode value without `_tag`."
+          : `Couldn't decode value, no model registered for tag ${_tag}.`
+      )
+
+    return model.from(value)
+  }
+
+  /**
+   * Checks whether the provided value is an instance of a registered model.
+   */
+  is(value: unknown): value is AnyModelInstance {
+    return this.models.some(model => value instanceof model)
+  }
+}
+
+/**
+ * Checks whether the given value is a `Registry`, also if created by another copy of this package
+ * (e.g. its CommonJS and ES module builds).
+ */
+export function isRegistry(value: unknown): value is Registry {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as any)[REGISTRY] === true
+  )
+}
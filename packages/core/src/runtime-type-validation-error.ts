@@ -1,19 +1,177 @@
 import * as t from "io-ts"
 import reporter from "io-ts-reporters"
 import { left } from "fp-ts/lib/Either"
+import { isModel, isUnion } from "./utils"
+import { REDACTED, redact } from "./redact"
+import { isSensitive } from "./types"
+
+export interface ValidationIssue {
+  /**
+   * Location of the invalid value, e.g. `["address", "lines", 0]`. Empty for the root value.
+   */
+  path: Array<string | number>
+  /**
+   * Name of the codec the value was validated with.
+   */
+  expected: string
+  actual: unknown
+  /**
+   * Custom message (e.g. from `t.withMessage` or `t.withValidation`) or a generated description.
+   */
+  message: string
+}
 
 export class RuntimeTypeValidationError extends Error {
   errors: t.Errors
+  issues: ValidationIssue[]
+  /**
+   * Issues per candidate model (by tag) for values that couldn't be decoded by a union.
+   */
+  members?: { [tag: string]: ValidationIssue[] }
 
   constructor(errors: t.Errors)
   constructor(message: string)
-  constructor(errors: t.Errors | string) {
+  constructor(message: string, members: { [tag: string]: t.Errors })
+  constructor(
+    errors: t.Errors | string,
+    members?: { [tag: string]: t.Errors }
+  ) {
+    const redactedMembers = members
+      ? Object.fromEntries(
+          Object.entries(members).map(([tag, errors]) => [
+            tag,
+            errors.map(redactError)
+          ])
+        )
+      : undefined
+
+    const redacted =
+      typeof errors === "string"
+        ? Object.values(redactedMembers ?? {}).flat()
+        : errors.map(redactError)
+
     super(
       typeof errors === "string"
-        ? errors
-        : reporter.report(left(errors)).join("\n")
+        ? [errors, ...formatMembers(redactedMembers ?? {})].join("\n")
+        : reporter.report(left(redacted)).join("\n")
     )
 
-    this.errors = typeof errors === "string" ? [] : errors
+    this.errors = redacted
+    this.issues = this.errors.map(toIssue)
+
+    if (redactedMembers)
+      this.members = Object.fromEntries(
+        Object.entries(redactedMembers).map(([tag, errors]) => [
+          tag,
+          errors.map(toIssue)
+        ])
+      )
+  }
+
+  /**
+   * Serializable representation, e.g. for API error responses.
+   */
+  toJSON() {
+    return {
+      name: "RuntimeTypeValidationError",
+      message: this.message,
+      issues: this.issues,
+      ...(this.members ? { members: this.members } : {})
+    }
   }
 }
+
+function formatMembers(members: { [tag: string]: t.Errors }) {
+  return Object.entries(members).flatMap(([tag, errors]) =>
+    reporter.report(left(errors)).map(line => `${tag}: ${line}`)
+  )
+}
+
+/**
+ * Masks values of sensitive codecs, so they don't end up in logs. This includes the values along
+ * the path of the error, e.g. the parent objects of an invalid nested field.
+ */
+function redactError(error: t.ValidationError): t.ValidationError {
+  const type = error.context[error.context.length - 1]?.type
+  const value = error.context.some(entry => isSensitive(entry.type))
+    ? REDACTED
+    : type
+    ? redact(type, error.value)
+    : error.value
+
+  let sensitive = false
+  const context = error.context.map(entry => {
+    // Values within sensitive values are masked as a whole
+    sensitive = sensitive || isSensitive(entry.type)
+    const actual = sensitive ? REDACTED : redact(entry.type, entry.actual)
+    return actual === entry.actual ? entry : { ...entry, actual }
+  })
+
+  return value === error.value &&
+    context.every((entry, index) => entry === error.context[index])
+    ? error
+    : { ...error, value, context }
+}
+
+function toIssue(error: t.ValidationError): ValidationIssue {
+  const path: Array<string | number> = []
+
+  error.context.forEach((entry, index) => {
+    const parent = error.context[index - 1]
+
+    // Skip the root entry and the member indices of unions and intersections
+    if (!parent || entry.key === "" || isMemberOf(parent.type)) return
+
+    path.push(
+      Array.isArray(parent.actual) && /^\d+$/.test(entry.key)
+        ? Number(entry.key)
+        : entry.key
+    )
+  })
+
+  const expected = error.context[error.context.length - 1]?.type.name ?? ""
+
+  return {
+    path,
+    expected,
+    actual: error.value,
+    message:
+      error.message ??
+      [
+        `Expecting ${expected}`,
+        path.length ? `at ${path.join(".")}` : "",
+        `but instead got: ${stringify(error.value)}`
+      ]
+        .filter(Boolean)
+        .join(" ")
+  }
+}
+
+function stringify(value: unknown) {
+  try {
+    return value === undefined ? "undefined" : JSON.stringify(value)
+  } catch (error) {
+    // E.g. bigints and circular structures
+    return String(value)
+  }
+}
+
+/**
+ * Whether the given codec validates its members with the same value, appending the member index
+ * to the context.
+ */
+function isMemberOf(type: t.Decoder<any, any>): boolean {
+  if (isModel(type)) return isMemberOf(type._codec)
+  if (
+    type instanceof t.ExactType ||
+    type instanceof t.RefinementType ||
+    type instanceof t.ReadonlyType
+  )
+    return isMemberOf(type.type)
+
+  return (
+    type instanceof t.UnionType ||
+    type instanceof t.IntersectionType ||
+    isUnion(type)
+  )
+}
@@ -0,0 +1,72 @@
+import * as t from "io-ts"
+import { isRight } from "fp-ts/lib/Either"
+import { RuntimeTypeValidationError } from "./runtime-type-validation-error"
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by models and unions
+ * via their `~standard` property.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => Result<Output> | Promise<Result<Output>>
+    readonly types?: Types<Input, Output> | undefined
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult
+
+  export interface SuccessResult<Output> {
+    readonly value: Output
+    readonly issues?: undefined
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>
+  }
+
+  export interface Issue {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input
+    readonly output: Output
+  }
+}
+
+export const STANDARD_SCHEMA_VENDOR = "model-ts"
+
+/**
+ * Creates the `~standard` props of a model or union, validating values using its `decode`.
+ */
+export function standardSchemaOf<A>(decoder: {
+  decode(value: unknown): t.Validation<A>
+}): StandardSchemaV1.Props<unknown, A> {
+  return {
+    version: 1,
+    vendor: STANDARD_SCHEMA_VENDOR,
+    validate: value => {
+      const decoded = decoder.decode(value)
+      if (isRight(decoded)) return { value: decoded.right }
+
+      // Issues are only formatted for failures, with sensitive values being masked
+      return {
+        issues: new RuntimeTypeValidationError(decoded.left).issues.map(
+          ({ path, message }) => (path.length ? { message, path } : { message })
+        )
+      }
+    }
+  }
+}
@@ -1,2 +1,3 @@
 export * from "io-ts"
 export * from "./types"
+export * from "./codecs"
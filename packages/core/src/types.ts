@@ -1,6 +1,14 @@
 import { either } from "fp-ts/lib/Either"
 import * as t from "io-ts"
 import { clone } from "io-ts-types/lib/clone"
+import {
+  nonEmptyArray as _nonEmptyArray,
+  NonEmptyArrayC,
+} from "io-ts-types/lib/nonEmptyArray"
+import {
+  readonlyNonEmptyArray as _readonlyNonEmptyArray,
+  ReadonlyNonEmptyArrayC,
+} from "io-ts-types/lib/readonlyNonEmptyArray"
 
 // Curated set of io-ts-types helpers exposed through `t`.
 export {
@@ -41,21 +49,37 @@ export {
   NonEmptyString,
   type NonEmptyStringC,
 } from "io-ts-types/lib/NonEmptyString"
-export {
-  nonEmptyArray,
-  type NonEmptyArrayC,
-} from "io-ts-types/lib/nonEmptyArray"
+export { type NonEmptyArrayC } from "io-ts-types/lib/nonEmptyArray"
 export {
   NumberFromString,
   type NumberFromStringC,
 } from "io-ts-types/lib/NumberFromString"
 export {
-  readonlyNonEmptyArray,
   type ReadonlyNonEmptyArrayC,
 } from "io-ts-types/lib/readonlyNonEmptyArray"
 export { withFallback } from "io-ts-types/lib/withFallback"
 export { withMessage } from "io-ts-types/lib/withMessage"
 
+/**
+ * io-ts-types' `nonEmptyArray`, keeping a reference to the element codec in `type` (like
+ * `t.array`) so that the codec can be introspected.
+ */
+export const nonEmptyArray = <C extends t.Mixed>(
+  codec: C,
+  name?: string
+): NonEmptyArrayC<C> =>
+  Object.assign(_nonEmptyArray(codec, name), { type: codec })
+
+/**
+ * io-ts-types' `readonlyNonEmptyArray`, keeping a reference to the element codec in `type` (like
+ * `t.readonlyArray`) so that the codec can be introspected.
+ */
+export const readonlyNonEmptyArray = <C extends t.Mixed>(
+  codec: C,
+  name?: string
+): ReadonlyNonEmptyArrayC<C> =>
+  Object.assign(_readonlyNonEmptyArray(codec, name), { type: codec })
+
 /**
  * Adapted from https://github.com/gcanti/io-ts-types/blob/master/src/withValidate.ts
  */
@@ -85,3 +109,100 @@ export const withValidation = <T extends t.Any>(
 
   return r
 }
+
+const SENSITIVE = Symbol.for("@model-ts/core/sensitive")
+
+/**
+ * Marks a codec as sensitive, e.g. for tokens and PII. Values of sensitive codecs are masked in
+ * `toJSON()`, inspect output and validation errors of models, but are still encoded as is.
+ */
+export const sensitive = <T extends t.Any>(type: T): T =>
+  Object.assign(clone(type), { [SENSITIVE]: true })
+
+/**
+ * Checks whether the given codec was marked via `sensitive`.
+ */
+export const isSensitive = (type: t.Decoder<any, any>): boolean =>
+  (type as any)[SENSITIVE] === true
+
+/**
+ * Result of a Zod-like `safeParse`.
+ */
+export type SafeParseResult<A> =
+  | { success: true; data: A }
+  | {
+      success: false
+      error: {
+        issues: ReadonlyArray<{
+          message: string
+          path?: ReadonlyArray<PropertyKey>
+        }>
+      }
+    }
+
+/**
+ * Zod-like validator, either a schema with a `safeParse` method or the `safeParse` function itself.
+ */
+export type SafeParser<A> =
+  | { safeParse(value: unknown): SafeParseResult<A> }
+  | ((value: unknown) => SafeParseResult<A>)
+
+/**
+ * Turns a Zod-like validator into an io-ts codec, e.g. to use Zod schemas as model fields during
+ * a migration. Issues are reported at their path within the field. Values are encoded as is,
+ * unless an `encode` function is provided.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class User extends model("User", t.type({ email: t.fromZod(z.string().email()) })) {}
+ * ```
+ *
+ * @param parser - Zod schema or `safeParse` function.
+ * @param options - Name of the codec and encoding of parsed values.
+ */
+export const fromZod = <A, O = A>(
+  parser: SafeParser<A>,
+  {
+    name = "ZodSchema",
+    encode = (value) => value as unknown as O,
+  }: { name?: string; encode?: (value: A) => O } = {}
+): t.Type<A, O, unknown> => {
+  const safeParse =
+    typeof parser === "function" ? parser : parser.safeParse.bind(parser)
+
+  return new t.Type<A, O, unknown>(
+    name,
+    (value): value is A => safeParse(value).success,
+    (value, context) => {
+      const result = safeParse(value)
+      if (result.success) return t.success(result.data)
+
+      return t.failures(
+        result.error.issues.map(({ message, path = [] }) => ({
+          value: valueAt(value, path),
+          // Issues are reported at their path within the parsed value
+          context: [
+            ...context,
+            ...path.map((key, index) => ({
+              key: String(key),
+              type: t.unknown,
+              actual: valueAt(value, path.slice(0, index + 1)),
+            })),
+          ],
+          message,
+        }))
+      )
+    },
+    encode
+  )
+}
+
+const valueAt = (value: unknown, path: ReadonlyArray<PropertyKey>) =>
+  path.reduce<any>(
+    (current, key) =>
+      typeof current === "object" && current !== null
+        ? current[key as any]
+        : undefined,
+    value
+  )
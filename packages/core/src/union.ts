@@ -1,9 +1,47 @@
 import * as t from "io-ts"
+import { Either, isLeft, isRight, left } from "fp-ts/lib/Either"
 import { AnyModel, InputOf, OutputOf } from "./model"
-import { Provider, UnionProps } from "./provider"
+import { Provider, UnionProps, isProvider } from "./provider"
 import { RuntimeTypeValidationError } from "./runtime-type-validation-error"
+import { UnionDescriptor, describe } from "./describe"
+import { StandardSchemaV1, standardSchemaOf } from "./standard-schema"
+import { isUnion } from "./utils"
 
-export interface BaseUnion<M extends [AnyModel, AnyModel, ...AnyModel[]]> {
+export interface UnionOptions {
+  /**
+   * Decodes values with a `_tag` only using the member model of that tag, instead of falling back
+   * to the other members if it fails. Values with an unknown `_tag` are rejected.
+   */
+  strict?: boolean
+}
+
+/**
+ * Models or unions to create a union of, unions being flattened into their member models.
+ */
+export type UnionMember = AnyModel | { _models: AnyModel[] }
+
+/**
+ * Member models of the given union members.
+ */
+export type ModelsOf<T> = T extends { _models: Array<infer Model> } ? Model : T
+
+/**
+ * Member models of a union created from the given members, as a tuple of models.
+ */
+export type FlattenMembers<M extends UnionMember[]> = M extends [
+  AnyModel,
+  AnyModel,
+  ...AnyModel[]
+]
+  ? M
+  : UnionModels<Extract<ModelsOf<M[number]>, AnyModel>>
+
+type UnionModels<T extends AnyModel> = [T, T, ...T[]]
+
+export interface BaseUnion<
+  M extends [AnyModel, AnyModel, ...AnyModel[]],
+  P extends Provider = Provider
+> {
   _models: Array<M[number]>
 
   // Disable constructor
@@ -30,6 +68,56 @@ export interface BaseUnion<M extends [AnyModel, AnyModel, ...AnyModel[]]> {
    */
   from(value: unknown): InstanceType<M[number]>
 
+  /**
+   * Calls the handler matching the `_tag` of the given union member and returns its result. All
+   * members need to be handled, unless a `_` fallback handler is provided.
+   *
+   * @param value - Union member to be matched
+   * @param handlers - Handlers by model tag
+   * @throws {Error} No handler matches the value.
+   */
+  match<U extends Union, H extends MatchHandlers<MemberOf<U>>>(
+    this: U,
+    value: MemberOf<U>,
+    handlers: H
+  ): MatchResult<H>
+  /**
+   * Creates a function calling the handler matching the `_tag` of a union member. All members need
+   * to be handled, unless a `_` fallback handler is provided.
+   *
+   * @param handlers - Handlers by model tag
+   */
+  match<U extends Union, H extends MatchHandlers<MemberOf<U>>>(
+    this: U,
+    handlers: H
+  ): (value: MemberOf<U>) => MatchResult<H>
+
+  /**
+   * Describes the fields of all member models.
+   */
+  describe(): UnionDescriptor
+
+  /**
+   * Creates a union of the members of this union and the given models or unions, with the same
+   * provider and options.
+   *
+   * @param members - Models or unions to add.
+   */
+  extend<N extends [UnionMember, ...UnionMember[]]>(
+    members: N
+  ): Union<UnionModels<M[number] | Extract<ModelsOf<N[number]>, AnyModel>>, P>
+
+  /**
+   * Creates a union of the members of this union except those with the given tags, with the same
+   * provider and options.
+   *
+   * @param tags - Tags of the models to exclude.
+   * @throws {Error} Less than two members remain.
+   */
+  exclude<K extends M[number]["_tag"]>(
+    tags: K[]
+  ): Union<UnionModels<Exclude<M[number], { _tag: K }>>, P>
+
   // io-ts type props
   _A: InstanceType<M[number]>
   _O: OutputOf<M[number]>
@@ -47,6 +135,9 @@ export interface BaseUnion<M extends [AnyModel, AnyModel, ...AnyModel[]]> {
   asEncoder<T extends [AnyModel, AnyModel, ...AnyModel[]]>(
     this: BaseUnion<T>
   ): t.Encoder<InstanceType<T[number]>, OutputOf<T[number]>>
+
+  // Standard Schema interop, e.g. for form libraries
+  readonly "~standard": StandardSchemaV1.Props<unknown, InstanceType<M[number]>>
 }
 
 export type Union<
@@ -56,21 +147,114 @@ export type Union<
     ...AnyModel[]
   ],
   P extends Provider = Provider
-> = BaseUnion<M> & UnionProps<P>
+> = BaseUnion<M, P> & UnionProps<P>
 
 export type MemberOf<T extends Union> = InstanceType<T["_models"][number]>
 
-export function union<M extends [AnyModel, AnyModel, ...AnyModel[]]>(
-  models: M
-): Union<M>
+/**
+ * Handlers for `match()` by model tag, either covering all members or providing a `_` fallback.
+ */
+export type MatchHandlers<I extends { _tag: string }> =
+  | { [K in I["_tag"]]: (value: Extract<I, { _tag: K }>) => unknown }
+  | ({ [K in I["_tag"]]?: (value: Extract<I, { _tag: K }>) => unknown } & {
+      _: (value: I) => unknown
+    })
+
+export type MatchResult<H> = {
+  [K in keyof H]-?: H[K] extends (...args: any[]) => infer R ? R : never
+}[keyof H]
+
+export function union<M extends [UnionMember, UnionMember, ...UnionMember[]]>(
+  members: M,
+  options?: UnionOptions
+): Union<FlattenMembers<M>>
 export function union<
-  M extends [AnyModel, AnyModel, ...AnyModel[]],
+  M extends [UnionMember, UnionMember, ...UnionMember[]],
   P extends Provider = Provider
->(models: M, provider: P): Union<M, P>
+>(members: M, provider: P, options?: UnionOptions): Union<FlattenMembers<M>, P>
 export function union<
   M extends [AnyModel, AnyModel, ...AnyModel[]],
   P extends Provider = Provider
->(models: M, provider?: P): Union<M, P> {
+>(
+  members: UnionMember[],
+  providerOrOptions?: P | UnionOptions,
+  maybeOptions?: UnionOptions
+): Union<M, P> {
+  const provider = isProvider(providerOrOptions)
+    ? (providerOrOptions as P)
+    : undefined
+  const options: UnionOptions =
+    (provider ? maybeOptions : (providerOrOptions as UnionOptions)) ?? {}
+  const { strict = false } = options
+
+  const models = flatten(members) as M
+  if (models.length < 2)
+    throw new Error(
+      `Union of ${models
+        .map((model) => model._tag)
+        .join(", ")} has less than two distinct members.`
+    )
+
+  const modelMap = new Map<unknown, M[number]>(
+    models.map((model) => [model._tag, model])
+  )
+  const tags = t.keyof(
+    Object.fromEntries(models.map((model) => [model._tag, null]))
+  )
+
+  /**
+   * Validates the value with the member matching its `_tag` first and the remaining members
+   * afterwards. Failures are collected by tag, without formatting any messages.
+   */
+  const validateMembers = (
+    value: unknown,
+    context: t.Context,
+    contextOf: (model: M[number], index: number) => t.Context
+  ): Either<{ [tag: string]: t.Errors }, InstanceType<M[number]>> => {
+    const _tag =
+      typeof value === "object" && value !== null
+        ? (value as { _tag?: unknown })._tag
+        : undefined
+    const preferred = modelMap.get(_tag)
+    const failures: { [tag: string]: t.Errors } = {}
+
+    if (preferred) {
+      const result = preferred.validate(
+        value,
+        contextOf(preferred, models.indexOf(preferred))
+      ) as t.Validation<InstanceType<M[number]>>
+      if (isRight(result) || strict)
+        return isRight(result)
+          ? result
+          : left({ [preferred._tag]: result.left })
+
+      failures[preferred._tag] = result.left
+    } else if (strict && _tag !== undefined) {
+      return left({
+        [String(_tag)]: [
+          {
+            value: _tag,
+            context: [...context, { key: "_tag", type: tags, actual: _tag }],
+          },
+        ],
+      })
+    }
+
+    for (const [index, model] of models.entries()) {
+      if (model === preferred) continue
+
+      const result = model.validate(
+        value,
+        contextOf(model, index)
+      ) as t.Validation<InstanceType<M[number]>>
+      if (isRight(result)) return result
+
+      failures[model._tag] = result.left
+    }
+
+    return left(failures)
+  }
+
   class Union {
     static _A: InstanceType<M[number]>
     static _O: OutputOf<M[number]>
@@ -78,36 +262,27 @@ export function union<
     static _models: Array<M[number]> = models
     static _codec: t.UnionC<M> = t.union(models)
 
-    private static _modelMap = new Map<string, M[number]>(
-      models.map((model) => [model._tag, model])
-    )
-
     constructor() {
       throw new Error("Can't instantiate union models.")
     }
 
     static decodeOrThrow(value: unknown): InstanceType<M[number]> {
-      const _tag = typeof value === "object" && (value as any)._tag
-
-      if (_tag && this._modelMap.has(_tag)) {
-        // Try preferred model
-        try {
-          const model = this._modelMap.get(_tag)! as M[number]
-          return model.from(value) as InstanceType<M[number]>
-        } catch (error) {
-          // Ignore and continue with other models.
-        }
-      }
-
-      // Try remaining models
-      for (const model of this._models.filter((model) => model._tag !== _tag)) {
-        try {
-          return model.from(value) as InstanceType<M[number]>
-        } catch (error) {}
-      }
+      const decoded = validateMembers(
+        value,
+        [{ key: "", type: this, actual: value }],
+        (model) => t.getDefaultContext(model._codec)
+      )
 
+      // Messages are only formatted once all members failed
+      if (isRight(decoded)) return decoded.right
+      provider?.hooks?.onValidationError?.(
+        Object.values(decoded.left).flat(),
+        value,
+        this
+      )
       throw new RuntimeTypeValidationError(
-        "Couldn't decode using any of the provided union types."
+        "Couldn't decode using any of the provided union types.",
+        decoded.left
       )
     }
 
@@ -115,32 +290,61 @@ export function union<
       return this.decodeOrThrow(value)
     }
 
+    static match(
+      ...args:
+        | [InstanceType<M[number]>, { [tag: string]: (value: any) => any }]
+        | [{ [tag: string]: (value: any) => any }]
+    ): any {
+      if (args.length === 1)
+        return (value: InstanceType<M[number]>) => this.match(value, args[0])
+
+      const [value, handlers] = args
+      const handler = handlers[value._tag] ?? handlers._
+
+      if (!handler) throw new Error(`No handler for ${value._tag} provided.`)
+
+      return handler(value)
+    }
+
+    static describe(): UnionDescriptor {
+      return describe(this as any as t.Any) as UnionDescriptor
+    }
+
+    static extend(members: UnionMember[]) {
+      return compose([...models, ...members])
+    }
+
+    static exclude(tags: string[]) {
+      const remaining = models.filter((model) => !tags.includes(model._tag))
+      if (remaining.length < 2)
+        throw new Error(
+          `Excluding ${tags.join(", ")} leaves less than two union members.`
+        )
+
+      return compose(remaining)
+    }
+
     // io-ts interop
     static validate(
       value: unknown,
       context: t.Context
     ): t.Validation<InstanceType<M[number]>> {
-      const _tag = typeof value === "object" && (value as any)._tag
-
-      if (_tag && this._modelMap.has(_tag)) {
-        // Try preferred model
-        try {
-          const model = this._modelMap.get(_tag)! as M[number]
-          return model.validate(value, context) as t.Validation<
-            InstanceType<M[number]>
-          >
-        } catch (error) {
-          // Ignore and continue with other models.
-        }
-      }
-
-      // Try full union
-      return this._codec.validate(value, context) as t.Validation<
-        InstanceType<M[number]>
-      >
+      const validated = validateMembers(value, context, (model, index) => [
+        ...context,
+        { key: String(index), type: model, actual: value },
+      ])
+
+      return isRight(validated)
+        ? validated
+        : t.failures(Object.values(validated.left).flat())
     }
     static decode(value: unknown): t.Validation<InstanceType<M[number]>> {
-      return this.validate(value, [{ key: "", type: this, actual: value }])
+      const decoded = this.validate(value, [
+        { key: "", type: this, actual: value },
+      ])
+      if (isLeft(decoded))
+        provider?.hooks?.onValidationError?.(decoded.left, value, this)
+      return decoded
     }
     static is(value: unknown): value is InstanceType<M[number]> {
       return this._codec.is(value)
@@ -160,9 +364,53 @@ export function union<
     > {
       return this
     }
+
+    // Standard Schema interop
+    static get "~standard"(): StandardSchemaV1.Props<
+      unknown,
+      InstanceType<M[number]>
+    > {
+      return standardSchemaOf(this)
+    }
   }
 
-  Object.assign(Union, provider?.unionProps ?? {})
+  /**
+   * Creates a union of the given members with the same provider and options.
+   */
+  const compose = (members: UnionMember[]): any =>
+    provider
+      ? union(members as any, provider, options)
+      : union(members as any, options)
+
+  Object.defineProperties(
+    Union,
+    Object.getOwnPropertyDescriptors(provider?.unionProps ?? {})
+  )
 
   return Union
 }
+
+/**
+ * Flattens unions into their member models, keeping the first occurrence of each model.
+ *
+ * @throws {Error} Different models share a tag.
+ */
+function flatten(members: UnionMember[]): AnyModel[] {
+  const models = new Map<string, AnyModel>()
+
+  members
+    .flatMap((member) =>
+      isUnion(member) ? member._models : [member as AnyModel]
+    )
+    .forEach((model) => {
+      const existing = models.get(model._tag)
+      if (existing && existing !== model)
+        throw new Error(
+          `Union members have to have distinct tags, but multiple models are tagged "${model._tag}".`
+        )
+
+      models.set(model._tag, model)
+    })
+
+  return Array.from(models.values())
+}
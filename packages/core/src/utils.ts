@@ -1,17 +1,71 @@
 import * as t from "io-ts"
-import { OutputOf, TypeOf } from "./model"
-import { Provider } from "./provider"
+import { ModelDescriptor } from "./describe"
+import {
+  AnyModel,
+  DeriveOptions,
+  Model,
+  OmittedCodec,
+  OutputOf,
+  PartialCodec,
+  PickedCodec,
+  TypeOf
+} from "./model"
+import {
+  Middleware,
+  Provider,
+  ProviderConflictError,
+  ProviderHooks,
+  isMiddleware
+} from "./provider"
+import { StandardSchemaV1 } from "./standard-schema"
+import { Union } from "./union"
 
 export interface ModelConstructor<T = {}> {
   new (...args: any[]): T
   _tag: string
   _codec: t.HasProps
+  _computed: string[]
+  _aliases: { [field: string]: { from: string[]; write: boolean } }
   decodeOrThrow<M extends ModelConstructor>(
     this: M,
     value: unknown
   ): InstanceType<M>
   from<M extends ModelConstructor>(this: M, value: unknown): InstanceType<M>
   encodeProp(key: any, value: any): any
+  encodeProps(values: Partial<T>): { [key: string]: unknown }
+  assertInvariants(value: T): void
+  describe(): ModelDescriptor
+  pick<
+    M extends ModelConstructor,
+    T2 extends string,
+    K extends keyof t.TypeOf<M["_codec"]>
+  >(
+    this: M,
+    tag: T2,
+    keys: K[],
+    options?: DeriveOptions
+  ): Model<T2, PickedCodec<M["_codec"], K>>
+  omit<
+    M extends ModelConstructor,
+    T2 extends string,
+    K extends keyof t.TypeOf<M["_codec"]>
+  >(
+    this: M,
+    tag: T2,
+    keys: K[],
+    options?: DeriveOptions
+  ): Model<T2, OmittedCodec<M["_codec"], K>>
+  partial<M extends ModelConstructor, T2 extends string>(
+    this: M,
+    tag: T2,
+    options?: DeriveOptions
+  ): Model<T2, PartialCodec<M["_codec"]>>
+  extend<M extends ModelConstructor, T2 extends string, P2 extends t.Props>(
+    this: M,
+    tag: T2,
+    props: P2,
+    options?: DeriveOptions
+  ): Model<T2, t.IntersectionC<[M["_codec"], t.TypeC<P2>]>>
 
   // io-ts interop
   _A: T
@@ -38,6 +92,7 @@ export interface ModelConstructor<T = {}> {
   asEncoder<M extends ModelConstructor>(
     this: M
   ): t.Encoder<TypeOf<M>, OutputOf<M>>
+  readonly "~standard": StandardSchemaV1.Props<unknown, T>
 }
 
 /**
@@ -96,6 +151,81 @@ export function getProps(codec: t.HasProps): t.Props {
   }
 }
 
+/**
+ * Collects the props of a codec, partitioned into required and optional props. In contrast to
+ * `getProps`, props of `t.partial` codecs are kept apart from the required ones.
+ */
+export function partitionProps(codec: t.HasProps | t.ExactC<t.HasProps>): {
+  required: t.Props
+  optional: t.Props
+} {
+  switch (codec._tag) {
+    case "ExactType":
+    case "RefinementType":
+    case "ReadonlyType":
+      return partitionProps(codec.type)
+    case "InterfaceType":
+    case "StrictType":
+      return { required: codec.props, optional: {} }
+    case "PartialType":
+      return { required: {}, optional: codec.props }
+    case "IntersectionType": {
+      const { required, optional } = codec.types.map(partitionProps).reduce(
+        (acc, { required, optional }) => ({
+          required: Object.assign(acc.required, required),
+          optional: Object.assign(acc.optional, optional)
+        }),
+        { required: {}, optional: {} }
+      )
+
+      // Props required by any of the intersected codecs are required
+      return {
+        required,
+        optional: Object.fromEntries(
+          Object.entries(optional).filter(([key]) => !(key in required))
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether the given value is a model class created with `model()`.
+ */
+export function isModel(value: unknown): value is AnyModel {
+  return (
+    typeof value === "function" &&
+    "_codec" in value &&
+    typeof (value as any)._tag === "string" &&
+    !("_models" in value)
+  )
+}
+
+/**
+ * Checks whether the given value is a union class created with `union()`.
+ */
+export function isUnion(value: unknown): value is Union {
+  return typeof value === "function" && Array.isArray((value as any)._models)
+}
+
+/**
+ * Copies arrays, plain objects and model instances, keeping other values (e.g. dates) as is.
+ */
+export function deepCopy<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(deepCopy) as any
+  if (typeof value !== "object" || value === null) return value
+
+  const object: any = value
+  const prototype = Object.getPrototypeOf(object)
+  if (prototype !== Object.prototype && !isModel(object.constructor))
+    return value
+
+  const copy = Object.create(prototype)
+  Object.entries(object).forEach(([key, item]) => (copy[key] = deepCopy(item)))
+
+  return copy
+}
+
 function isIntersectionC(
   codec: t.Any
 ): codec is t.IntersectionC<[t.Mixed, t.Mixed, ...Array<t.Mixed>]> {
@@ -116,38 +246,229 @@ function isTypeC(codec: t.Any): codec is t.TypeC<t.Props> {
 
 type UnknownFallback<T, F> = unknown extends T ? F : T
 
-type MergeProviders<T extends [Provider, ...Provider[]]> = T extends [Provider]
+type PropKind = "classProps" | "instanceProps" | "unionProps"
+
+export interface MergeProvidersOptions {
+  /**
+   * Resolves conflicting props by keeping those of the first or the last provider injecting them,
+   * or rejects them with a `ProviderConflictError` (and a type error). Defaults to `"last"`.
+   */
+  precedence?: "first" | "last" | "error"
+}
+
+/**
+ * Literal keys of the given props, ignoring index signatures.
+ */
+type KnownKeys<T> = keyof {
+  [K in keyof T as string extends K
+    ? never
+    : number extends K
+    ? never
+    : symbol extends K
+    ? never
+    : K]: 0
+}
+
+type MiddlewareKeys<T> = {
+  [K in KnownKeys<T>]: T[K & keyof T] extends Middleware ? K : never
+}[KnownKeys<T>]
+
+type MergeProps<A, B, Precedence> = Precedence extends "first"
+  ? A & Omit<B, KnownKeys<A> | MiddlewareKeys<B>>
+  : Omit<A, Exclude<KnownKeys<B>, MiddlewareKeys<B>>> &
+      Omit<B, MiddlewareKeys<B>>
+
+type MergeProviders<
+  T extends [Provider, ...Provider[]],
+  Precedence = "last"
+> = T extends [Provider]
   ? T[0]
-  : T extends [infer Head, ...(infer Tail)]
+  : T extends [infer Head, ...infer Tail]
   ? Head extends Provider
     ? Tail extends [Provider, ...Provider[]]
       ? {
-          classProps: UnknownFallback<
-            Head["classProps"] & MergeProviders<Tail>["classProps"],
-            {}
+          classProps: MergeProps<
+            UnknownFallback<Head["classProps"], {}>,
+            UnknownFallback<MergeProviders<Tail, Precedence>["classProps"], {}>,
+            Precedence
           >
-          instanceProps: UnknownFallback<
-            Head["instanceProps"] & MergeProviders<Tail>["instanceProps"],
-            {}
+          instanceProps: MergeProps<
+            UnknownFallback<Head["instanceProps"], {}>,
+            UnknownFallback<
+              MergeProviders<Tail, Precedence>["instanceProps"],
+              {}
+            >,
+            Precedence
           >
-          unionProps: UnknownFallback<
-            Head["unionProps"] & MergeProviders<Tail>["unionProps"],
-            {}
+          unionProps: MergeProps<
+            UnknownFallback<Head["unionProps"], {}>,
+            UnknownFallback<MergeProviders<Tail, Precedence>["unionProps"], {}>,
+            Precedence
           >
+          hooks: ProviderHooks
         }
       : never
     : never
   : never
 
-export function mergeProviders<T extends [Provider, ...Provider[]]>(
-  providers: T
-): MergeProviders<T> {
+/**
+ * Props injected under the same name by multiple providers, excluding middleware.
+ */
+type ConflictsOf<
+  T extends Provider[],
+  K extends PropKind,
+  Injected = never
+> = T extends [infer Head, ...infer Tail]
+  ? Head extends Provider
+    ? Tail extends Provider[]
+      ?
+          | Extract<
+              Exclude<InjectedKeys<Head, K>, MiddlewareKeys<PropsOf<Head, K>>>,
+              Injected
+            >
+          | ConflictsOf<Tail, K, Injected | InjectedKeys<Head, K>>
+      : never
+    : never
+  : never
+
+type PropsOf<P extends Provider, K extends PropKind> = UnknownFallback<P[K], {}>
+
+type InjectedKeys<P extends Provider, K extends PropKind> = KnownKeys<
+  PropsOf<P, K>
+>
+
+export type ProviderConflicts<T extends Provider[]> =
+  | ConflictsOf<T, "classProps">
+  | ConflictsOf<T, "instanceProps">
+  | ConflictsOf<T, "unionProps">
+
+/**
+ * Fails to type-check merging providers with conflicting props, naming the conflicts.
+ */
+type NoConflicts<T extends Provider[]> = [ProviderConflicts<T>] extends [never]
+  ? unknown
+  : { conflictingProps: ProviderConflicts<T> }
+
+/**
+ * Merges the props and hooks of the given providers.
+ *
+ * Props injected under the same name by multiple providers are taken from the last provider,
+ * unless another `precedence` is declared. With a precedence of `"error"`, they are a
+ * `ProviderConflictError` (and a type error) instead, unless a provider is namespaced via
+ * `namespaceProvider` or a prop wraps the preceding provider's prop via `middleware`.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const provider = mergeProviders([dynamoDBProvider, eventBridgeProvider])
+ * ```
+ *
+ * @param providers - Providers to merge, in order.
+ * @param options - Resolution of conflicting props.
+ */
+export function mergeProviders<
+  T extends [Provider, ...Provider[]],
+  O extends MergeProvidersOptions = {}
+>(
+  providers: T & (O["precedence"] extends "error" ? NoConflicts<T> : unknown),
+  options?: O
+): MergeProviders<T, O["precedence"] extends "first" ? "first" : "last"> {
+  const conflicts: string[] = []
+  const merge = (kind: PropKind) =>
+    mergeProps(
+      kind,
+      providers.map(p => p[kind] ?? {}),
+      options?.precedence ?? "last",
+      conflicts
+    )
+
+  const merged = {
+    classProps: merge("classProps"),
+    instanceProps: merge("instanceProps"),
+    unionProps: merge("unionProps"),
+    hooks: composeHooks(providers.map(p => p.hooks ?? {}))
+  }
+  if (conflicts.length) throw new ProviderConflictError(conflicts)
+
+  return merged as any
+}
+
+/**
+ * Merges props by their descriptors, collecting conflicts for a precedence of `"error"`.
+ */
+function mergeProps(
+  kind: PropKind,
+  props: object[],
+  precedence: NonNullable<MergeProvidersOptions["precedence"]>,
+  conflicts: string[]
+) {
+  const merged: { [key: string]: any } = {}
+
+  props.forEach(injected =>
+    Object.entries(Object.getOwnPropertyDescriptors(injected)).forEach(
+      ([key, descriptor]) => {
+        const existing = Object.getOwnPropertyDescriptor(merged, key)
+
+        if (isMiddleware(descriptor.value)) {
+          const next = existing?.value
+          if (typeof next !== "function")
+            throw new Error(
+              `Middleware ${kind}.${key} has no preceding method to wrap.`
+            )
+
+          const wrap = descriptor.value
+          merged[key] = function (this: unknown, ...args: any[]) {
+            return wrap.call(this, next.bind(this), ...args)
+          }
+          return
+        }
+
+        if (existing) {
+          if (precedence === "error") conflicts.push(`${kind}.${key}`)
+          if (precedence === "first") return
+        }
+
+        Object.defineProperty(merged, key, descriptor)
+      }
+    )
+  )
+
+  return merged
+}
+
+/**
+ * Composes hooks in the given order, passing the result of a transforming hook to the next one.
+ */
+function composeHooks(hooks: ProviderHooks[]): ProviderHooks {
+  const pipe = (key: "afterDecode" | "beforeEncode" | "afterEncode") => {
+    const withHook = hooks.filter(hook => hook[key])
+    if (!withHook.length) return {}
+
+    return {
+      [key]: (value: any, model: ModelConstructor) =>
+        withHook.reduce((result, hook) => hook[key]!(result, model), value)
+    }
+  }
+  const constructHooks = hooks.filter(hook => hook.onConstruct)
+  const errorHooks = hooks.filter(hook => hook.onValidationError)
+
   return {
-    classProps: Object.assign({}, ...providers.map(p => p.classProps ?? {})),
-    instanceProps: Object.assign(
-      {},
-      ...providers.map(p => p.instanceProps ?? {})
-    ),
-    unionProps: Object.assign({}, ...providers.map(p => p.unionProps ?? {}))
-  } as MergeProviders<T>
+    ...(constructHooks.length
+      ? {
+          onConstruct: (instance, model) =>
+            constructHooks.forEach(hook => hook.onConstruct!(instance, model))
+        }
+      : {}),
+    ...pipe("afterDecode"),
+    ...pipe("beforeEncode"),
+    ...pipe("afterEncode"),
+    ...(errorHooks.length
+      ? {
+          onValidationError: (errors, value, model) =>
+            errorHooks.forEach(hook =>
+              hook.onValidationError!(errors, value, model)
+            )
+        }
+      : {})
+  }
 }
@@ -1,5 +1,13 @@
 import * as t from "io-ts"
-import { model, RuntimeTypeValidationError, union } from "@model-ts/core"
+import {
+  defineFactory,
+  mergeProviders,
+  model,
+  Registry,
+  RuntimeTypeValidationError,
+  runWithContext,
+  union,
+} from "@model-ts/core"
 import { Sandbox, createSandbox } from "../sandbox"
 import { Client } from "../client"
 import { getProvider } from "../provider"
@@ -140,6 +148,16 @@ afterEach(async () => {
 
 describe("put", () => {
   describe("via instance", () => {
+    test("it resets change tracking", async () => {
+      const item = new A({ pk: "PK", sk: "SK", a: 1 }).with({ a: 2 })
+      expect(item.changedFields()).toEqual(["a"])
+
+      await item.put()
+
+      expect(item.isDirty()).toBe(false)
+      expect(item.originalValues().a).toEqual(2)
+    })
+
     test("it inserts a simple model", async () => {
       const before = await sandbox.snapshot()
 
@@ -327,6 +345,52 @@ describe("get", () => {
         RuntimeTypeValidationError
       )
     })
+
+    test("it runs hooks of merged providers", async () => {
+      const reverse = (value: string) => value.split("").reverse().join("")
+
+      class Secret extends model(
+        "Secret",
+        t.type({ id: t.string, secret: t.string }),
+        mergeProviders([
+          provider,
+          {
+            hooks: {
+              afterEncode: (encoded: any) => ({
+                ...encoded,
+                secret: reverse(encoded.secret),
+              }),
+              afterDecode: (instance: any) =>
+                Object.assign(instance, { secret: reverse(instance.secret) }),
+            },
+          },
+        ])
+      ) {
+        get PK() {
+          return `PK#${this.id}`
+        }
+        get SK() {
+          return "SK"
+        }
+      }
+
+      const before = await sandbox.snapshot()
+      await new Secret({ id: "1", secret: "abc" }).put()
+
+      expect(await sandbox.diff(before)).toMatchInlineSnapshot(`
+        + [PK#1 / SK]
+        +   PK: "PK#1"
+        +   SK: "SK"
+        +   _docVersion: 0
+        +   _tag: "Secret"
+        +   id: "1"
+        +   secret: "cba"
+      `)
+      expect((await Secret.get({ PK: "PK#1", SK: "SK" })).values()).toEqual({
+        id: "1",
+        secret: "abc",
+      })
+    })
   })
 
   describe("via union", () => {
@@ -351,6 +415,19 @@ describe("get", () => {
       `)
     })
 
+    test("it matches the item by model", async () => {
+      const item = await new D({ pk: "PK#0", sk: "SK#0", d: "0" }).put()
+
+      const result = await Union.get(item.keys())
+
+      expect(
+        Union.match(result, {
+          C: (c) => `C: ${c.c}`,
+          D: (d) => `D: ${d.d}`,
+        })
+      ).toEqual("D: 0")
+    })
+
     test("it throws `RuntimeTypeError` if item can't be decoded", async () => {
       await sandbox.seed({ PK: "A", SK: "A", a: 324 })
 
@@ -631,6 +708,52 @@ describe("updateRaw", () => {
       }
     `)
   })
+
+  test("it updates the current attribute of aliased fields", async () => {
+    class Aliased extends model(
+      "Aliased",
+      t.type({ ownerId: t.string, views: t.number }),
+      provider,
+      {
+        aliases: {
+          ownerId: "userId",
+          views: { from: "viewCount", write: true },
+        },
+      }
+    ) {
+      get PK() {
+        return "ALIASED"
+      }
+
+      get SK() {
+        return "ALIASED"
+      }
+    }
+
+    await sandbox.seed({
+      PK: "ALIASED",
+      SK: "ALIASED",
+      _tag: "Aliased",
+      userId: "user-1",
+      viewCount: 1,
+    })
+
+    const result = await Aliased.updateRaw({ PK: "ALIASED", SK: "ALIASED" }, {
+      userId: "user-2",
+      views: 2,
+    } as any)
+
+    expect(result.ownerId).toEqual("user-2")
+    expect(await sandbox.get("ALIASED", "ALIASED")).toEqual({
+      PK: "ALIASED",
+      SK: "ALIASED",
+      _tag: "Aliased",
+      userId: "user-1",
+      ownerId: "user-2",
+      viewCount: 2,
+      views: 2,
+    })
+  })
 })
 
 describe("update", () => {
@@ -703,6 +826,45 @@ describe("update", () => {
       `)
     })
   })
+
+  describe("with invariants", () => {
+    class Range extends model(
+      "Range",
+      t.type({ id: t.string, from: t.number, to: t.number }),
+      provider,
+      {
+        invariants: [
+          {
+            check: ({ from, to }) => to >= from,
+            message: "to must not be less than from",
+            path: ["to"],
+          },
+        ],
+      }
+    ) {
+      get PK() {
+        return `PK#${this.id}`
+      }
+
+      get SK() {
+        return "SK"
+      }
+    }
+
+    test("it doesn't write items violating invariants", async () => {
+      const item = await new Range({ id: "1", from: 1, to: 2 }).put()
+
+      const before = await sandbox.snapshot()
+
+      await expect(item.update({ to: 0 })).rejects.toBeInstanceOf(
+        RuntimeTypeValidationError
+      )
+      expect(() => item.applyUpdate({ from: 3 })).toThrow(
+        RuntimeTypeValidationError
+      )
+      expect(await sandbox.snapshot()).toEqual(before)
+    })
+  })
 })
 
 describe("applyUpdate", () => {
@@ -864,6 +1026,87 @@ describe("query", () => {
       `)
     })
 
+    test("it decodes results with a registry", async () => {
+      const registry = new Registry()
+      registry.register(A)
+      registry.register(C)
+
+      await sandbox.seed(
+        new A({ pk: "abc", sk: "SORT#1", a: 1 }),
+        new B({ pk: "abc", sk: "SORT#2", b: "hi" }),
+        new C({ pk: "abc", sk: "SORT#3", c: "hi" })
+      )
+
+      const { items, _unknown } = await client.query(
+        {
+          KeyConditionExpression: `PK = :pk and begins_with(SK, :sk)`,
+          ExpressionAttributeValues: { ":pk": "abc", ":sk": "SORT#" },
+        },
+        { items: registry }
+      )
+
+      expect(items).toHaveLength(2)
+      expect(items[0]).toBeInstanceOf(A)
+      expect(items[1]).toBeInstanceOf(C)
+      expect(items[1].keys()).toEqual({ PK: "abc", SK: "SORT#3" })
+      expect(_unknown).toEqual([expect.objectContaining({ _tag: "B" })])
+    })
+
+    test("it skips models without the DynamoDB provider in a registry", async () => {
+      class Plain extends model("Plain", t.type({ pk: t.string })) {}
+
+      const registry = new Registry()
+      registry.register(A)
+      registry.register(Plain)
+
+      await sandbox.seed(new A({ pk: "abc", sk: "SORT#1", a: 1 }), {
+        PK: "abc",
+        SK: "SORT#2",
+        _tag: "Plain",
+        pk: "abc",
+      })
+
+      const { items, _unknown } = await client.query(
+        {
+          KeyConditionExpression: `PK = :pk and begins_with(SK, :sk)`,
+          ExpressionAttributeValues: { ":pk": "abc", ":sk": "SORT#" },
+        },
+        { items: registry }
+      )
+
+      expect(items).toHaveLength(1)
+      expect(items[0]).toBeInstanceOf(A)
+      expect(_unknown).toEqual([expect.objectContaining({ _tag: "Plain" })])
+    })
+
+    test("it first tries models matching the `_tag` of items", async () => {
+      await sandbox.seed(
+        {
+          PK: "abc",
+          SK: "SORT#1",
+          _tag: "B",
+          pk: "abc",
+          sk: "1",
+          a: 1,
+          b: "b",
+        },
+        { PK: "abc", SK: "SORT#2", _tag: "A", pk: "abc", sk: "2", b: "b" }
+      )
+
+      const { a, b, _unknown } = await client.query(
+        {
+          KeyConditionExpression: `PK = :pk and begins_with(SK, :sk)`,
+          ExpressionAttributeValues: { ":pk": "abc", ":sk": "SORT#" },
+        },
+        { a: A, b: B }
+      )
+
+      expect(a).toEqual([])
+      // Items failing the model of their `_tag` fall back to the other models
+      expect(b.map((item) => item.sk)).toEqual(["1", "2"])
+      expect(_unknown).toEqual([])
+    })
+
     test("it paginates", async () => {
       await sandbox.seed(
         ...Array.from({ length: 20 }).map(
@@ -1128,6 +1371,36 @@ describe("query", () => {
       expect(result.meta).toEqual({ lastEvaluatedKey: undefined })
     })
 
+    test("it supports composed unions", async () => {
+      await sandbox.seed(
+        new A({ pk: "abc", sk: "SORT#1", a: 1 }),
+        new B({ pk: "abc", sk: "SORT#2", b: "hi" }),
+        new C({ pk: "abc", sk: "SORT#3", c: "c1" }),
+        new D({ pk: "abc", sk: "SORT#4", d: "d1" })
+      )
+
+      const Composed = Union.extend([A]).exclude(["D"])
+
+      const result = await Composed.query({
+        KeyConditionExpression: `PK = :pk and begins_with(SK, :sk)`,
+        ExpressionAttributeValues: { ":pk": "abc", ":sk": "SORT#" },
+      })
+
+      expect(result.map((item) => item._tag)).toEqual(["A", "C"])
+      expect(await Composed.load({ PK: "abc", SK: "SORT#1" })).toBeInstanceOf(A)
+      expect(
+        (
+          await Composed.paginate(
+            {},
+            {
+              KeyConditionExpression: "PK = :pk",
+              ExpressionAttributeValues: { ":pk": "abc" },
+            }
+          )
+        ).edges.map(({ node }) => node._tag)
+      ).toEqual(["A", "C"])
+    })
+
     test("it fetches all pages for union when FetchAllPages is true", async () => {
       await sandbox.seed(
         ...Array.from({ length: 10 }).map(
@@ -1189,6 +1462,14 @@ describe("query", () => {
 
 describe("bulk", () => {
   describe("< 100 elements (true transaction)", () => {
+    test("it resets change tracking of put items", async () => {
+      const item = new A({ pk: "PK", sk: "SK", a: 1 }).with({ a: 2 })
+
+      await client.bulk([item.operation("put")])
+
+      expect(item.isDirty()).toBe(false)
+    })
+
     test("it succeeds", async () => {
       const softDeleteTarget = new B({ pk: "PK#3", sk: "SK#3", b: "bar" })
 
@@ -3470,6 +3751,57 @@ describe("paginate", () => {
   })
 })
 
+describe("contextAttributes", () => {
+  test("it writes attributes derived from the request context", async () => {
+    client.contextAttributes = ({ tenantId, actor }) => ({
+      _tenantId: tenantId,
+      _updatedBy: actor,
+    })
+
+    try {
+      await runWithContext({ tenantId: "tenant", actor: "user-1" }, () =>
+        new A({ pk: "PK", sk: "SK", a: 1 }).put()
+      )
+      expect(await sandbox.get("PK", "SK")).toMatchObject({
+        a: 1,
+        _tenantId: "tenant",
+        _updatedBy: "user-1",
+      })
+
+      await runWithContext({ actor: "user-2" }, () =>
+        A.updateRaw({ PK: "PK", SK: "SK" }, { a: 2 })
+      )
+      expect(await sandbox.get("PK", "SK")).toMatchObject({
+        a: 2,
+        _tenantId: "tenant",
+        _updatedBy: "user-2",
+      })
+    } finally {
+      delete client.contextAttributes
+    }
+  })
+
+  test("it rejects key and reserved attributes", async () => {
+    client.contextAttributes = ({ tenantId }) => ({
+      PK: tenantId,
+      _docVersion: 10,
+    })
+
+    try {
+      await expect(
+        runWithContext({ tenantId: "tenant" }, () =>
+          new A({ pk: "PK", sk: "SK", a: 1 }).put()
+        )
+      ).rejects.toThrow(
+        "Context attributes can't overwrite the reserved attribute PK."
+      )
+      expect(await sandbox.snapshot()).toEqual({})
+    } finally {
+      delete client.contextAttributes
+    }
+  })
+})
+
 describe("sandbox", () => {
   test("it seeds a lot of items", async () => {
     await sandbox.seed(
@@ -3478,4 +3810,37 @@ describe("sandbox", () => {
       )
     )
   })
+
+  test("it seeds items built by a factory", async () => {
+    const factory = defineFactory(A, {
+      defaults: { pk: "PK", a: 1 },
+      sequences: { sk: (n) => `SK#${n}` },
+    })
+
+    const items = await factory.seed(sandbox, 2, { a: 2 })
+
+    expect(items.map((item) => item.sk)).toEqual(["SK#1", "SK#2"])
+    expect(await sandbox.snapshot()).toMatchInlineSnapshot(`
+      {
+        "PK__SK#1": {
+          "PK": "PK",
+          "SK": "SK#1",
+          "_docVersion": 0,
+          "_tag": "A",
+          "a": 2,
+          "pk": "PK",
+          "sk": "SK#1",
+        },
+        "PK__SK#2": {
+          "PK": "PK",
+          "SK": "SK#2",
+          "_docVersion": 0,
+          "_tag": "A",
+          "a": 2,
+          "pk": "PK",
+          "sk": "SK#2",
+        },
+      }
+    `)
+  })
 })
@@ -11,6 +11,7 @@ import * as TE from "fp-ts/lib/TaskEither"
 import { retrying } from "retry-ts/lib/Task"
 import { monoidRetryPolicy, constantDelay, limitRetries } from "retry-ts"
 import DataLoader from "dataloader"
+import { ModelContext, Registry, getContext, isRegistry } from "@model-ts/core"
 import {
   BulkOperation,
   PutOperation,
@@ -100,6 +101,14 @@ export interface ClientProps
    * Defaults for pagination.
    */
   paginationOptions?: PaginationOptions
+
+  /**
+   * Attributes derived from the request context (see `runWithContext` of `@model-ts/core`), written
+   * along items by puts and updates, e.g. audit fields. Overrides encoded fields of the same name,
+   * but mustn't include keys (`PK`, `SK` and GSI keys) or attributes managed by the client (e.g.
+   * `_tag` and `_docVersion`).
+   */
+  contextAttributes?: (context: ModelContext) => { [attribute: string]: any }
 }
 
 export interface Key {
@@ -113,11 +122,13 @@ export class Client {
   dataLoader: DataLoader<GetOperation<Decodable>, DynamoDBModelInstance, string>
   cursorEncryptionKey?: Buffer
   paginationOptions?: PaginationOptions
+  contextAttributes?: ClientProps["contextAttributes"]
 
   constructor(props: ClientProps) {
     this.tableName = props?.tableName
     this.cursorEncryptionKey = props?.cursorEncryptionKey
     this.paginationOptions = props?.paginationOptions
+    this.contextAttributes = props?.contextAttributes
 
     const inMemoryRequested = process.env.EXPERIMENTAL_DYNAMODB_IN_MEMORY === "1"
     if (inMemoryRequested && process.env.NODE_ENV !== "test") {
@@ -186,8 +197,8 @@ export class Client {
     ...params
   }: PutOperation<T, M>): Promise<T> {
     try {
-      const encoded = (_model as M & DynamoDBInternals<M>).__dynamoDBEncode(
-        item
+      const encoded = this.withContextAttributes(
+        (_model as M & DynamoDBInternals<M>).__dynamoDBEncode(item)
       )
 
       await this.documentClient
@@ -204,6 +215,7 @@ export class Client {
 
       // @ts-ignore
       item._docVersion = encoded._docVersion
+      if (!_deleted) item.markClean()
 
       return item
     } catch (error) {
@@ -352,13 +364,18 @@ export class Client {
      * them. In order to do that, we partition all attribute updates into `SET` and `REMOVE` arrays.
      */
     const { left: removeAttributes, right: setAttributes } = pipe(
-      Object.entries(attributes).filter(
-        ([, value]) => typeof value !== "undefined"
+      // Legacy names of aliased fields are mapped onto the current attribute
+      Object.entries<any>(
+        this.withContextAttributes(
+          _model.encodeProps(
+            Object.fromEntries(
+              Object.entries(attributes).filter(
+                ([, value]) => typeof value !== "undefined"
+              )
+            )
+          )
+        )
       ),
-      A.map(([key, value]) => [
-        key,
-        _model.encodeProp(key as any, value as any),
-      ]),
       A.partitionMap(([key, value]) =>
         // We need to remove a value, if it's used in a GSI and the value is null
         // TODO: handle differently in new version
@@ -483,7 +500,7 @@ export class Client {
     return item
   }
 
-  async query<M extends Decodable, R extends { [name: string]: M }>(
+  async query<M extends Decodable | Registry, R extends { [name: string]: M }>(
     { FetchAllPages, ...params }: QueryParams,
     models: R
   ): Promise<QueryResponse<R>> {
@@ -524,19 +541,30 @@ export class Client {
 
     // Adds the item to the grouped object if one model returns right
     const matcher = (item: unknown) => {
-      // TODO: first try models matching `_tag`
-
-      for (const key in models) {
-        try {
-          const decoded = (
-            models[key] as any as DynamoDBInternals<M>
-          ).__dynamoDBDecode(item)
-          grouped[key].push(decoded as any)
+      const _tag = (item as { _tag?: unknown })?._tag
+
+      // Models matching the `_tag` of the item are tried first
+      const keys = Object.keys(models)
+      const matching = keys.filter((key) => decodesTag(models[key], _tag))
+      const candidates = [
+        ...matching,
+        ...keys.filter((key) => !matching.includes(key)),
+      ]
+
+      for (const key of candidates) {
+        const model = models[key]
+        const decoded =
+          isRegistry(model)
+            ? validateWithRegistry(model, item)
+            : (model as any as DynamoDBInternals<Decodable>).__dynamoDBValidate(
+                item
+              )
+
+        if (E.isRight(decoded)) {
+          grouped[key].push(decoded.right as any)
 
           // Early exit
           return
-        } catch (error) {
-          // Didn't match codec
         }
       }
 
@@ -782,6 +810,16 @@ export class Client {
       else throw new BulkWriteRollbackError(rollbackFailure)
     }
 
+    // Reset change tracking of persisted items
+    result.right.successful.forEach((operation) => {
+      const action = isTransactionOperation(operation)
+        ? operation.action
+        : operation
+
+      if (action._operation === "put" && !action._deleted)
+        action.item.markClean()
+    })
+
     return result.right
   }
 
@@ -893,8 +931,8 @@ export class Client {
     switch (operation._operation) {
       case "put": {
         const { _model, _operation, _deleted, item, IgnoreExistence, ...params } = operation
-        const encoded = (_model as M & DynamoDBInternals<M>).__dynamoDBEncode(
-          item
+        const encoded = this.withContextAttributes(
+          (_model as M & DynamoDBInternals<M>).__dynamoDBEncode(item)
         )
         return {
           Put: {
@@ -956,6 +994,31 @@ export class Client {
     }
   }
 
+  /**
+   * Adds the attributes derived from the current request context.
+   *
+   * @throws {Error} A context attribute is a key or reserved attribute.
+   */
+  private withContextAttributes<T extends { [attribute: string]: any }>(
+    attributes: T
+  ): T {
+    if (!this.contextAttributes) return attributes
+
+    const contextAttributes = Object.entries(
+      this.contextAttributes(getContext())
+    ).filter(([, value]) => typeof value !== "undefined")
+
+    const reserved = contextAttributes.find(([key]) =>
+      RESERVED_ATTRIBUTES.has(key)
+    )
+    if (reserved)
+      throw new Error(
+        `Context attributes can't overwrite the reserved attribute ${reserved[0]}.`
+      )
+
+    return Object.assign(attributes, Object.fromEntries(contextAttributes))
+  }
+
   private applySoftDeletionFields<
     T extends {
       PK: string
@@ -980,3 +1043,48 @@ export class Client {
     }
   }
 }
+
+/**
+ * Keys and attributes managed by the client, which can't be set via context attributes.
+ */
+const RESERVED_ATTRIBUTES = new Set<string>([
+  "PK",
+  "SK",
+  "_tag",
+  "_version",
+  "_docVersion",
+  "_deletedAt",
+  ...GSI_NAMES.flatMap((GSI) => [`${GSI}PK`, `${GSI}SK`]),
+])
+
+/**
+ * Decodes an item using the DynamoDB model registered for its `_tag`, without throwing.
+ */
+const validateWithRegistry = (registry: Registry, item: unknown) => {
+  const model = registry.get((item as { _tag?: string })._tag ?? "")
+
+  if (!model) return E.left(new Error("No model registered for item."))
+
+  const dynamoDBModel = model as any as Partial<
+    DynamoDBInternals<DynamoDBModelConstructor<any>>
+  >
+  if (typeof dynamoDBModel.__dynamoDBValidate !== "function")
+    return E.left(
+      new Error(
+        `Model ${model._tag} registered for item doesn't use the DynamoDB provider.`
+      )
+    )
+
+  return dynamoDBModel.__dynamoDBValidate(item)
+}
+
+/**
+ * Whether the given model, union or registry decodes items with the given `_tag`.
+ */
+const decodesTag = (model: Decodable | Registry, _tag: unknown) =>
+  typeof _tag === "string" &&
+  (isRegistry(model)
+    ? model.has(_tag)
+    : "_models" in model
+    ? model._models.some((member) => member._tag === _tag)
+    : model._tag === _tag)
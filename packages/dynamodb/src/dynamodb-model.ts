@@ -1,4 +1,9 @@
-import { ModelInstance, ModelConstructor, Union } from "@model-ts/core"
+import {
+  ModelInstance,
+  ModelConstructor,
+  Registry,
+  Union,
+} from "@model-ts/core"
 import { GSIPK, GSISK } from "./gsi"
 
 export interface DynamoDBModelInstance extends ModelInstance<string, any> {
@@ -66,9 +71,11 @@ export type DynamoDBUnion = Union<
 
 export type Decodable = DynamoDBModelConstructor<any> | DynamoDBUnion
 
-export type DecodableInstance<M extends Decodable> =
+export type DecodableInstance<M extends Decodable | Registry> =
   M extends DynamoDBModelConstructor<any>
     ? InstanceType<M>
     : M extends DynamoDBUnion
     ? InstanceType<M["_models"][number]>
+    : M extends Registry
+    ? DynamoDBModelInstance
     : never
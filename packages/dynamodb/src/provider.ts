@@ -23,22 +23,27 @@ import {
 import { OutputOf, TypeOf, ModelOf } from "@model-ts/core"
 import { RaceConditionError } from "./errors"
 import { absurd } from "fp-ts/lib/function"
+import { Either, either } from "fp-ts/lib/Either"
 import { encodeDDBCursor, PaginationInput } from "./pagination"
 import { GSI_NAMES, GSIPK, GSISK } from "./gsi"
 
 export interface DynamoDBInternals<M extends Decodable> {
-  __dynamoDBDecode(
-    value: unknown
-  ): M extends DynamoDBModelConstructor<any>
-    ? InstanceType<M>
-    : M extends DynamoDBUnion
-    ? InstanceType<M["_models"][number]>
-    : never
+  __dynamoDBDecode(value: unknown): DecodedItem<M>
+  /**
+   * Non-throwing variant of `__dynamoDBDecode` that doesn't format error messages.
+   */
+  __dynamoDBValidate(value: unknown): Either<unknown, DecodedItem<M>>
   __dynamoDBEncode(
     item: DynamoDBModelInstance
   ): M extends DynamoDBModelConstructor<any> ? OutputOf<M> : never
 }
 
+type DecodedItem<M extends Decodable> = M extends DynamoDBModelConstructor<any>
+  ? InstanceType<M>
+  : M extends DynamoDBUnion
+  ? InstanceType<M["_models"][number]>
+  : never
+
 export const getProvider = (client: Client) => {
   // operation func overloads with access to client
 
@@ -154,6 +159,7 @@ export const getProvider = (client: Client) => {
           ...stripUndefinedValues(attributes),
           _docVersion: (item._docVersion ?? 0) + 1,
         }) as T
+        item._model.assertInvariants(updatedItem)
 
         if (item.PK === updatedItem.PK && item.SK === updatedItem.SK) {
           // update in place
@@ -399,15 +405,21 @@ export const getProvider = (client: Client) => {
         this: M,
         value: unknown
       ) {
-        const decoded = this.from(value)
-
-        try {
-          return Object.assign(decoded, {
-            _docVersion: (value as any)._docVersion ?? 0,
-          })
-        } catch (error) {
-          return decoded
-        }
+        return withDocVersion(this.from(value), value)
+      },
+
+      /**
+       * @internal
+       */
+      __dynamoDBValidate<M extends DynamoDBModelConstructor<any>>(
+        this: M,
+        value: unknown
+      ) {
+        // Validates rather than decodes, as failing candidates aren't decoding errors
+        return either.map(
+          this.validate(value, [{ key: "", type: this, actual: value }]),
+          (decoded) => withDocVersion(decoded as InstanceType<M>, value)
+        )
       },
 
       /**
@@ -645,6 +657,7 @@ export const getProvider = (client: Client) => {
       /**
        * Updates this instance with new attribute values and persists the changes to DynamoDB.
        * Handles version conflicts and automatically manages key changes if primary keys are updated.
+       * The full item is written, regardless of the fields changed.
        * @throws RaceConditionError if the instance is out of sync with the stored value.
        */
       async update<T extends DynamoDBModelInstance>(
@@ -739,15 +752,17 @@ export const getProvider = (client: Client) => {
        * @internal
        */
       __dynamoDBDecode<M extends DynamoDBUnion>(this: M, value: unknown) {
-        const decoded = this.from(value)
-
-        try {
-          return Object.assign(decoded, {
-            _docVersion: (value as any)._docVersion ?? 0,
-          })
-        } catch (error) {
-          return decoded
-        }
+        return withDocVersion(this.from(value), value)
+      },
+
+      /**
+       * @internal
+       */
+      __dynamoDBValidate<M extends DynamoDBUnion>(this: M, value: unknown) {
+        return either.map(
+          this.validate(value, [{ key: "", type: this, actual: value }]),
+          (decoded) => withDocVersion(decoded, value)
+        )
       },
 
       /**
@@ -854,3 +869,16 @@ function stripUndefinedValues<T extends Record<string, any>>(obj: T): T {
     Object.entries(obj).filter(([_key, value]) => typeof value !== "undefined")
   ) as T
 }
+
+/**
+ * Attaches the `_docVersion` of the stored item to the decoded instance.
+ */
+function withDocVersion<T>(decoded: T, value: unknown): T {
+  try {
+    return Object.assign(decoded, {
+      _docVersion: (value as any)._docVersion ?? 0,
+    })
+  } catch (error) {
+    return decoded
+  }
+}
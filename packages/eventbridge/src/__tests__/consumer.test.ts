@@ -0,0 +1,69 @@
+import * as t from "io-ts"
+import {
+  model,
+  Registry,
+  RuntimeTypeValidationError,
+  union,
+} from "@model-ts/core"
+import { decodeEvent } from "../consumer"
+
+class UserCreatedEvent extends model(
+  "UserCreatedEvent",
+  t.type({ userId: t.string })
+) {
+  source = "core"
+  detailType = "core.user.created"
+}
+
+class UserDeletedEvent extends model(
+  "UserDeletedEvent",
+  t.type({ userId: t.string })
+) {}
+
+const registry = new Registry()
+registry.register(UserCreatedEvent)
+registry.register(UserDeletedEvent)
+
+const toEvent = (detail: unknown) => ({
+  source: "core",
+  "detail-type": "core.user.created",
+  detail,
+})
+
+it("should decode the detail with the registered model", () => {
+  const event = new UserCreatedEvent({ userId: "user-1" })
+  const decoded = decodeEvent(toEvent(event.encode()), registry)
+
+  expect(decoded).toBeInstanceOf(UserCreatedEvent)
+  expect(decoded.values()).toEqual({ userId: "user-1" })
+})
+
+it("should decode the detail with the given model", () => {
+  const decoded = decodeEvent(
+    toEvent({ _tag: "UserCreatedEvent", userId: "user-1" }),
+    UserCreatedEvent
+  )
+
+  expect(decoded).toBeInstanceOf(UserCreatedEvent)
+  expect(decoded.detailType).toEqual("core.user.created")
+})
+
+it("should decode the detail with the given union", () => {
+  class UserEvent extends union([UserCreatedEvent, UserDeletedEvent]) {}
+
+  const decoded = decodeEvent(
+    toEvent({ _tag: "UserDeletedEvent", userId: "user-1" }),
+    UserEvent
+  )
+
+  expect(decoded).toBeInstanceOf(UserDeletedEvent)
+})
+
+it("should throw if the detail can't be decoded", () => {
+  expect(() =>
+    decodeEvent(toEvent({ _tag: "Unknown", userId: "user-1" }), registry)
+  ).toThrow(RuntimeTypeValidationError)
+  expect(() =>
+    decodeEvent(toEvent({ _tag: "UserDeletedEvent" }), registry)
+  ).toThrow(RuntimeTypeValidationError)
+})
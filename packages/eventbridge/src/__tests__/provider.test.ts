@@ -1,5 +1,5 @@
 import * as t from "io-ts"
-import { model } from "@model-ts/core"
+import { model, runWithContext } from "@model-ts/core"
 import { EventBridgeProvider, getProvider } from "../provider"
 import { EventBridgeClient, PutEventsCommand } from "@aws-sdk/client-eventbridge"
 import { Client } from "../client"
@@ -106,3 +106,27 @@ it("should return Entries", async () => {
     },
   ])
 })
+
+it("should add metadata derived from the request context", async () => {
+  const eventBridgeClient = new EventBridgeClient({})
+  eventBridgeClient.send = jest.fn().mockResolvedValueOnce({
+    Entries: [],
+  })
+  const client = new Client({
+    eventBusName: EVENT_BUS_NAME,
+    metadata: ({ tenantId, traceId }) => ({ tenantId, traceId }),
+  })
+  client.eventBridgeClient = eventBridgeClient
+  const { event } = mockEvent(getProvider(client))
+
+  await runWithContext({ tenantId: "any-tenant", traceId: "any-trace" }, () =>
+    event.publish()
+  )
+
+  const [entry] = (eventBridgeClient.send as jest.Mock).mock.calls[0][0].input
+    .Entries
+  expect(JSON.parse(entry.Detail)).toEqual({
+    ...event.encode(),
+    _metadata: { tenantId: "any-tenant", traceId: "any-trace" },
+  })
+})
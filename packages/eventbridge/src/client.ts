@@ -1,4 +1,4 @@
-import { ModelInstance } from "@model-ts/core"
+import { ModelContext, ModelInstance, getContext } from "@model-ts/core"
 import {
   EventBridgeClient,
   EventBridgeClientConfig,
@@ -9,16 +9,24 @@ import { PublishError } from "./errors"
 
 export interface ClientProps extends EventBridgeClientConfig {
   eventBusName: string
+
+  /**
+   * Metadata derived from the request context (see `runWithContext` of `@model-ts/core`), added to
+   * the detail of published events as `_metadata`.
+   */
+  metadata?: (context: ModelContext) => { [key: string]: unknown } | undefined
 }
 
 export class Client {
   eventBusName: string
   eventBridgeClient: EventBridgeClient
+  metadata?: ClientProps["metadata"]
 
   constructor(options: ClientProps) {
-    const { eventBusName, ...clientOptions } = options
+    const { eventBusName, metadata, ...clientOptions } = options
     this.eventBridgeClient = new EventBridgeClient(clientOptions)
     this.eventBusName = eventBusName
+    this.metadata = metadata
   }
 
   async publish(
@@ -32,6 +40,7 @@ export class Client {
     if (!events.length) return []
 
     const chunks = chunk(events, 10)
+    const metadata = this.metadata?.(getContext())
 
     const entries: NonNullable<PutEventsCommandOutput["Entries"]> = []
     let failedCount = 0
@@ -43,7 +52,11 @@ export class Client {
             EventBusName: this.eventBusName,
             Source: event.source,
             DetailType: event.detailType,
-            Detail: JSON.stringify(event.encode()),
+            Detail: JSON.stringify(
+              metadata
+                ? { ...event.encode(), _metadata: metadata }
+                : event.encode()
+            ),
           })),
         })
       )
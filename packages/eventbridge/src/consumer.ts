@@ -0,0 +1,50 @@
+import {
+  AnyModelInstance,
+  MemberOf,
+  ModelConstructor,
+  Registry,
+  Union,
+  isRegistry,
+} from "@model-ts/core"
+
+/**
+ * EventBridge event as delivered to targets, e.g. Lambda functions.
+ */
+export interface EventBridgeEvent<D = unknown> {
+  id?: string
+  version?: string
+  account?: string
+  time?: string
+  region?: string
+  resources?: string[]
+  source: string
+  "detail-type": string
+  detail: D
+}
+
+/**
+ * Decodes the detail of an event published via `publish()`, using either the model registered
+ * for its `_tag` or the given model or union.
+ *
+ * @throws {RuntimeTypeValidationError} The detail can't be decoded.
+ */
+export function decodeEvent(
+  event: EventBridgeEvent,
+  registry: Registry
+): AnyModelInstance
+export function decodeEvent<M extends ModelConstructor>(
+  event: EventBridgeEvent,
+  model: M
+): InstanceType<M>
+export function decodeEvent<U extends Union>(
+  event: EventBridgeEvent,
+  union: U
+): MemberOf<U>
+export function decodeEvent(
+  event: EventBridgeEvent,
+  decoder: Registry | { from(value: unknown): unknown }
+) {
+  return isRegistry(decoder)
+    ? decoder.decode(event.detail)
+    : decoder.from(event.detail)
+}
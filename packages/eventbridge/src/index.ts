@@ -2,3 +2,4 @@ export * from "./errors"
 export * from "./client"
 export * from "./provider"
 export * from "./stub"
+export * from "./consumer"